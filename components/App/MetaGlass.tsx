@@ -7,11 +7,14 @@ import { SnippetApps } from '../Section/SnippetApps';
 import { ImageGrid } from '../Section/ImageGrid';
 import { Footer } from '../Section/Footer';
 import { GlassOverlay } from '../Core/GlassOverlay';
-import { Slider, ToggleGroup } from '../Core/Controls';
+import { Slider, ToggleGroup, ColorPicker } from '../Core/Controls';
 import { motion, useScroll, useTransform } from 'framer-motion';
 import { DraggableWindow } from '../Core/DraggableWindow';
 import { Dock } from '../Section/Dock';
 import { HandDrawnArrow } from '../Core/HandDrawnArrow';
+import { GlassAbbePresets, GlassAbbePreset } from '../../utils/dispersion';
+import { GlassEnvironmentName } from '../../utils/glassLighting';
+import { GlassTintPresets } from '../../utils/glassTint';
 
 export const MetaGlassApp = () => {
   const { scrollY } = useScroll();
@@ -24,6 +27,17 @@ export const MetaGlassApp = () => {
   const [blur, setBlur] = useState(10);
   const [radius, setRadius] = useState(32);
   const [debug, setDebug] = useState('off');
+  const [dispersion, setDispersion] = useState(0);
+  const [material, setMaterial] = useState('off');
+  const [lighting, setLighting] = useState('default');
+  const [tint, setTint] = useState<string>(GlassTintPresets.azure);
+  const [tintDensity, setTintDensity] = useState(0);
+
+  const environment = lighting === 'default' ? undefined : lighting as GlassEnvironmentName;
+  const glassDispersion = {
+    delta: dispersion,
+    abbe: material === 'off' ? undefined : GlassAbbePresets[material as GlassAbbePreset],
+  };
 
   // Window State for Controls
   const [windows, setWindows] = useState({ controls: true });
@@ -164,6 +178,11 @@ export const MetaGlassApp = () => {
                     radius={radius}
                     bezel={bezel}
                     refraction={refraction}
+                    dispersion={glassDispersion}
+                    environment={environment}
+                    tint={tint}
+                    tintDensity={tintDensity}
+                    lightFollow="auto"
                     bgBlur={blur}
                     debug={debug === 'on'}
                 />
@@ -190,6 +209,10 @@ export const MetaGlassApp = () => {
                     radius={[0, 70, 70, 70]} 
                     bezel={bezel}
                     refraction={refraction * 1.5} // Extra distortion for the peel
+                    dispersion={glassDispersion}
+                    environment={environment}
+                    tint={tint}
+                    tintDensity={tintDensity}
                     bgBlur={blur}
                     debug={debug === 'on'}
                 />
@@ -276,6 +299,40 @@ export const MetaGlassApp = () => {
                 min={0} max={100} 
                 onChange={setRefraction} 
             />
+            <Slider 
+                label="Dispersion" 
+                value={dispersion} 
+                min={0} max={20} 
+                onChange={setDispersion} 
+            />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                <span style={{ ...Theme.Type.Readable.Label.S, color: Theme.Color.Base.Content[2] }}>Dispersion Curve (Abbe)</span>
+                <ToggleGroup 
+                    options={['off', 'flint', 'crown', 'diamond']} 
+                    value={material} 
+                    onChange={setMaterial} 
+                />
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                <span style={{ ...Theme.Type.Readable.Label.S, color: Theme.Color.Base.Content[2] }}>Lighting</span>
+                <ToggleGroup 
+                    options={['default', 'studio', 'sunset', 'night']} 
+                    value={lighting} 
+                    onChange={setLighting} 
+                />
+            </div>
+            <ColorPicker 
+                label="Tint" 
+                value={tint} 
+                swatches={GlassTintPresets} 
+                onChange={setTint} 
+            />
+            <Slider 
+                label="Tint Density" 
+                value={tintDensity} 
+                min={0} max={3} step={0.1} 
+                onChange={setTintDensity} 
+            />
             <Slider 
                 label="Blur" 
                 value={blur} 
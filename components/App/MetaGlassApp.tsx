@@ -1,15 +1,24 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { Theme } from '../../utils/theme';
 import { Background } from '../Section/Background';
 import { Dock } from '../Section/Dock';
 import { DraggableWindow } from '../Core/DraggableWindow';
 import { GlassBubble } from '../Package/GlassBubble';
-import { Slider, ToggleGroup } from '../Core/Controls';
+import { Slider, ToggleGroup, ColorPicker, Button } from '../Core/Controls';
 import { Console } from '../Section/Console';
 import { CodeIO } from '../Section/CodeIO';
-import { Faders, Code, TerminalWindow } from '@phosphor-icons/react';
-import { GlassShape } from '../../utils/glassGenerator';
+import { CurveEditor, BezierPoints } from '../Section/CurveEditor';
+import { Faders, Code, TerminalWindow, BezierCurve } from '@phosphor-icons/react';
+import { motion } from 'framer-motion';
+import { GlassShapeProfile, GlassProfileCurve, GlassSquircleMode, GlassMapEncoding } from '../../utils/glassPipeline';
+import { GlassIorPresets, GlassIorPreset } from '../../utils/refraction';
+import { GlassPathPresets, GlassPathPresetName } from '../../utils/glassShapes';
+import { GlassTintPresets } from '../../utils/glassTint';
+import {
+  GlassMaterial, GlassMaterialPresets, GlassMaterialPresetName, createGlassMaterial,
+  serializeGlassMaterial, deserializeGlassMaterial, isGlassMaterialError,
+} from '../../utils/glassMaterial';
 
 // --- Types ---
 interface GlassState {
@@ -18,9 +27,105 @@ interface GlassState {
   blur: number;
   radius: number;
   debug: 'off' | 'on';
-  shape: GlassShape;
+  shape: 'rect' | 'squircle' | 'path';
+  pathPreset: GlassPathPresetName;
+  squircleExponent: number;
+  squircleMode: GlassSquircleMode;
+  profile: GlassShapeProfile | 'custom';
+  curve: BezierPoints;
+  seed: number;
+  animate: 'off' | 'on';
+  refraction: 'artistic' | 'physical';
+  material: GlassIorPreset;
+  thickness: number;
+  encoding: GlassMapEncoding;
+  reflection: number;
+  highlight: number;
+  tint: string;
+  tintDensity: number;
 }
 
+const nearestIorPreset = (ior: number) => (Object.keys(GlassIorPresets) as GlassIorPreset[]).reduce((best, name) =>
+  Math.abs(GlassIorPresets[name] - ior) < Math.abs(GlassIorPresets[best] - ior) ? name : best
+);
+
+// Lossy where the controls are coarser than the material: custom paths fall back
+// to 'rect', point curves to 'convex', numeric IORs to the nearest preset.
+// Frost, shadows, dispersion and lights have no controls here; toMaterial keeps them.
+const fromMaterial = ({ geometry, refraction, highlight, tint, lighting }: GlassMaterial): Partial<GlassState> => {
+  const { shape, profile } = geometry;
+  const { ior } = refraction;
+  const pathPreset = typeof shape === 'object'
+    ? (Object.keys(GlassPathPresets) as GlassPathPresetName[]).find((name) => GlassPathPresets[name].path === shape.path)
+    : undefined;
+  const curve = typeof profile === 'object' && profile.type === 'cubic-bezier' ? profile.points : undefined;
+
+  return {
+    shape: typeof shape === 'string' ? shape : pathPreset ? 'path' : 'rect',
+    ...(pathPreset && { pathPreset }),
+    radius: geometry.radius,
+    bezel: geometry.bezel,
+    profile: curve ? 'custom' : typeof profile === 'string' ? profile : 'convex',
+    ...(curve && { curve }),
+    squircleExponent: geometry.squircleExponent,
+    squircleMode: geometry.squircleMode,
+    intensity: refraction.scale,
+    blur: refraction.blur,
+    encoding: refraction.encoding,
+    refraction: ior === undefined ? 'artistic' : 'physical',
+    ...(ior !== undefined && {
+      material: typeof ior === 'number' ? nearestIorPreset(ior) : ior,
+      thickness: refraction.thickness ?? geometry.bezel,
+    }),
+    highlight: highlight.strength,
+    tint: GlassTintPresets[tint.color as keyof typeof GlassTintPresets] ?? tint.color,
+    tintDensity: tint.density,
+    reflection: lighting.reflection,
+  };
+};
+
+// Writes the controls over `base`, the last applied or imported material, so
+// sections without controls here (dispersion, frost, shadows, lights) survive an
+// export. Fields fromMaterial can only approximate (custom paths, point curves,
+// numeric IORs, tint preset names) keep the base value until their control moves.
+const toMaterial = (glass: GlassState, base: GlassMaterial, name: string): GlassMaterial => {
+  const applied = fromMaterial(base);
+  const untouched = (...keys: (keyof GlassState)[]) =>
+    keys.every((key) => applied[key] === undefined || applied[key] === glass[key]);
+  const physical = glass.refraction === 'physical';
+
+  return {
+    ...base,
+    name,
+    geometry: {
+      ...base.geometry,
+      shape: untouched('shape', 'pathPreset')
+        ? base.geometry.shape
+        : glass.shape === 'path' ? GlassPathPresets[glass.pathPreset] : glass.shape,
+      radius: glass.radius,
+      bezel: glass.bezel,
+      profile: untouched('profile', 'curve')
+        ? base.geometry.profile
+        : glass.profile === 'custom' ? { type: 'cubic-bezier', points: glass.curve } : glass.profile,
+      squircleExponent: glass.squircleExponent,
+      squircleMode: glass.squircleMode,
+    },
+    refraction: {
+      ...base.refraction,
+      scale: glass.intensity,
+      blur: glass.blur,
+      encoding: glass.encoding,
+      ...(!untouched('refraction', 'material', 'thickness') && {
+        ior: physical ? glass.material : undefined,
+        thickness: physical ? glass.thickness : undefined,
+      }),
+    },
+    highlight: { ...base.highlight, strength: glass.highlight },
+    tint: { color: untouched('tint') ? base.tint.color : glass.tint, density: glass.tintDensity },
+    lighting: { ...base.lighting, reflection: glass.reflection },
+  };
+};
+
 interface LogEntry {
   id: number;
   timestamp: string;
@@ -37,13 +142,34 @@ export const MetaGlassApp = () => {
     radius: 48,
     debug: 'off',
     shape: 'rect',
+    pathPreset: 'star',
+    squircleExponent: 4,
+    squircleMode: 'full',
+    profile: 'convex',
+    curve: [0.2, 0.8, 0.4, 1],
+    seed: 1,
+    animate: 'off',
+    refraction: 'artistic',
+    material: 'crown',
+    thickness: 32,
+    encoding: 'linear',
+    reflection: 0,
+    highlight: 0.5,
+    tint: GlassTintPresets.azure,
+    tintDensity: 0,
   });
 
+  // Label for exports; back to 'Custom' once a control moves
+  const [materialName, setMaterialName] = useState('Custom');
+  // What exports build on, so fields without controls aren't reset to defaults
+  const [baseMaterial, setBaseMaterial] = useState<GlassMaterial>(() => createGlassMaterial('Custom'));
+
   // --- State: Window Management (#MP) ---
   const [windows, setWindows] = useState([
     { id: 'controls', isOpen: true, zIndex: 10, title: 'Controls', icon: <Faders size={20} weight="duotone" /> },
     { id: 'code', isOpen: false, zIndex: 9, title: 'Code I/O', icon: <Code size={20} weight="duotone" /> },
     { id: 'console', isOpen: false, zIndex: 8, title: 'Console', icon: <TerminalWindow size={20} weight="duotone" /> },
+    { id: 'curve', isOpen: false, zIndex: 7, title: 'Profile Curve', icon: <BezierCurve size={20} weight="duotone" /> },
   ]);
 
   const [logs, setLogs] = useState<LogEntry[]>([
@@ -60,11 +186,49 @@ export const MetaGlassApp = () => {
 
   const updateGlass = useCallback((key: keyof GlassState, val: any) => {
     setGlass(prev => ({ ...prev, [key]: val }));
+    setMaterialName('Custom');
     if (Math.random() > 0.95) { 
        addLog(`Property [${key}] updated to ${val}`, 'action');
     }
   }, [addLog]);
 
+  // --- Materials: presets and JSON files ---
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyMaterial = useCallback((material: GlassMaterial) => {
+    setGlass(prev => ({ ...prev, ...fromMaterial(material) }));
+    setBaseMaterial(material);
+    setMaterialName(material.name);
+    addLog(`Material "${material.name}" applied`, 'action');
+  }, [addLog]);
+
+  const exportMaterial = useCallback(() => {
+    try {
+      const json = serializeGlassMaterial(toMaterial(glass, baseMaterial, materialName));
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${materialName.toLowerCase().replace(/\W+/g, '-')}.glass.json`;
+      link.click();
+      // Revoking straight away can cancel the download before it starts
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      addLog(`Material "${materialName}" exported`, 'system');
+    } catch (err) {
+      const issues = isGlassMaterialError(err) ? err.issues : [String(err)];
+      issues.forEach((issue) => addLog(`Export failed: ${issue}`, 'system'));
+    }
+  }, [glass, baseMaterial, materialName, addLog]);
+
+  const importMaterial = useCallback(async (file: File) => {
+    try {
+      applyMaterial(deserializeGlassMaterial(await file.text()));
+    } catch (err) {
+      // Reported, not rethrown: nothing awaits this handler
+      const issues = isGlassMaterialError(err) ? err.issues : [String(err)];
+      issues.forEach((issue) => addLog(`${file.name}: ${issue}`, 'system'));
+    }
+  }, [applyMaterial, addLog]);
+
   const toggleWindow = useCallback((id: string) => {
     setWindows(prev => {
       const target = prev.find(w => w.id === id);
@@ -95,6 +259,12 @@ export const MetaGlassApp = () => {
     });
   }, []);
 
+  // Stable curve object so the bubble only regenerates when the points change
+  const profile = useMemo<GlassShapeProfile | GlassProfileCurve>(
+    () => glass.profile === 'custom' ? { type: 'cubic-bezier', points: glass.curve } : glass.profile,
+    [glass.profile, glass.curve]
+  );
+
   const styles = {
     container: { 
       width: '100vw', 
@@ -117,7 +287,21 @@ export const MetaGlassApp = () => {
       display: 'flex',
       alignItems: 'center',
       justifyContent: 'center',
-    }
+    },
+    bubble: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    bubbleLabel: {
+      ...Theme.Type.Expressive.Display.M,
+      fontSize: 'clamp(2rem, 6vw, 4rem)',
+      color: 'rgba(255,255,255,0.9)',
+      textShadow: '0 4px 20px rgba(0,0,0,0.3)',
+      mixBlendMode: 'overlay' as const,
+      letterSpacing: '0.05em',
+      pointerEvents: 'none' as const,
+    },
   };
 
   return (
@@ -125,10 +309,36 @@ export const MetaGlassApp = () => {
       <Background />
       
       <div style={styles.glassContainer}>
+         {/* Only bubble props: the bubble forwards anything else to its DOM element */}
          <GlassBubble 
-            {...glass} 
+            bezel={glass.bezel}
+            intensity={glass.intensity}
+            blur={glass.blur}
+            radius={glass.radius}
+            squircleExponent={glass.squircleExponent}
+            squircleMode={glass.squircleMode}
+            seed={glass.seed}
+            thickness={glass.thickness}
+            encoding={glass.encoding}
+            reflection={glass.reflection}
+            highlight={glass.highlight}
+            tint={glass.tint}
+            tintDensity={glass.tintDensity}
+            profile={profile}
+            shape={glass.shape === 'path' ? GlassPathPresets[glass.pathPreset] : glass.shape}
             debug={glass.debug === 'on'} 
-         />
+            animate={glass.animate === 'on'}
+            ior={glass.refraction === 'physical' ? glass.material : undefined}
+            style={styles.bubble}
+         >
+           <motion.span
+             style={styles.bubbleLabel}
+             animate={{ opacity: [0.7, 1, 0.7] }}
+             transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
+           >
+             LIQUID
+           </motion.span>
+         </GlassBubble>
       </div>
 
       {windows.map((win) => (
@@ -145,6 +355,35 @@ export const MetaGlassApp = () => {
         >
           {win.id === 'controls' && (
             <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.L }}>
+               <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                  <label style={Theme.Type.Readable.Label.S}>Material</label>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: Theme.Space.XS }}>
+                    {(Object.keys(GlassMaterialPresets) as GlassMaterialPresetName[]).map((name) => (
+                      <Button
+                        key={name}
+                        label={name}
+                        active={materialName === GlassMaterialPresets[name].name}
+                        onClick={() => applyMaterial(GlassMaterialPresets[name])}
+                      />
+                    ))}
+                  </div>
+                  <div style={{ display: 'flex', gap: Theme.Space.XS }}>
+                    <Button label="Export JSON" onClick={exportMaterial} />
+                    <Button label="Import JSON" onClick={() => fileInputRef.current?.click()} />
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".json,application/json"
+                      style={{ display: 'none' }}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importMaterial(file);
+                        e.target.value = ''; // Same file again still fires
+                      }}
+                    />
+                  </div>
+               </div>
+
                <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
                   <label style={Theme.Type.Readable.Label.S}>Debug Visualization</label>
                   <ToggleGroup 
@@ -156,31 +395,143 @@ export const MetaGlassApp = () => {
                     }} 
                   />
                </div>
+
+               <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                  <label style={Theme.Type.Readable.Label.S}>Map Encoding</label>
+                  <ToggleGroup 
+                    options={['linear', 'dither', 'companded']} 
+                    value={glass.encoding} 
+                    onChange={(v) => {
+                      updateGlass('encoding', v);
+                      addLog(`Map encoding switched to ${v}`, 'system');
+                    }} 
+                  />
+               </div>
                
                <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
                   <label style={Theme.Type.Readable.Label.S}>Geometry</label>
                   <ToggleGroup 
-                    options={['rect', 'squircle']} 
+                    options={['rect', 'squircle', 'path']} 
                     value={glass.shape} 
                     onChange={(v) => {
                       updateGlass('shape', v);
                       addLog(`Shape updated to ${v}`, 'action');
                     }} 
                   />
+                  {glass.shape === 'squircle' && (
+                    <ToggleGroup 
+                      options={['full', 'corners']} 
+                      value={glass.squircleMode} 
+                      onChange={(v) => {
+                        updateGlass('squircleMode', v);
+                        addLog(`Squircle mode updated to ${v}`, 'action');
+                      }} 
+                    />
+                  )}
+                  {glass.shape === 'path' && (
+                    <ToggleGroup 
+                      options={Object.keys(GlassPathPresets)} 
+                      value={glass.pathPreset} 
+                      onChange={(v) => {
+                        updateGlass('pathPreset', v);
+                        addLog(`Path preset updated to ${v}`, 'action');
+                      }} 
+                    />
+                  )}
+               </div>
+
+               <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                  <label style={Theme.Type.Readable.Label.S}>Surface Profile</label>
+                  <ToggleGroup 
+                    options={['convex', 'concave', 'flat', 'liquid', 'custom']} 
+                    value={glass.profile} 
+                    onChange={(v) => {
+                      updateGlass('profile', v);
+                      addLog(`Profile updated to ${v}`, 'action');
+                    }} 
+                  />
+               </div>
+
+               <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                  <label style={Theme.Type.Readable.Label.S}>Refraction Model</label>
+                  <ToggleGroup 
+                    options={['artistic', 'physical']} 
+                    value={glass.refraction} 
+                    onChange={(v) => {
+                      updateGlass('refraction', v);
+                      addLog(`Refraction model switched to ${v}`, 'system');
+                    }} 
+                  />
+                  {glass.refraction === 'physical' && (
+                    <ToggleGroup 
+                      options={Object.keys(GlassIorPresets)} 
+                      value={glass.material} 
+                      onChange={(v) => {
+                        updateGlass('material', v);
+                        addLog(`Material updated to ${v} (IOR ${GlassIorPresets[v as GlassIorPreset]})`, 'action');
+                      }} 
+                    />
+                  )}
                </div>
 
                <div style={{ height: '1px', background: Theme.Color.Base.Surface[3] }} />
                
-               <Slider label="Refraction Intensity" value={glass.intensity} min={0} max={100} onChange={(v) => updateGlass('intensity', v)} />
+               {glass.refraction === 'physical' ? (
+                 <Slider label="Glass Thickness" value={glass.thickness} min={0} max={120} onChange={(v) => updateGlass('thickness', v)} />
+               ) : (
+                 <Slider label="Refraction Intensity" value={glass.intensity} min={0} max={100} onChange={(v) => updateGlass('intensity', v)} />
+               )}
                <Slider label="Bezel Width" value={glass.bezel} min={0} max={100} onChange={(v) => updateGlass('bezel', v)} />
                <Slider label="Surface Blur" value={glass.blur} min={0} max={20} onChange={(v) => updateGlass('blur', v)} />
-               {glass.shape === 'rect' && (
+               <ColorPicker label="Tint" value={glass.tint} swatches={GlassTintPresets} onChange={(v) => updateGlass('tint', v)} />
+               <Slider label="Tint Density" value={glass.tintDensity} min={0} max={3} step={0.1} onChange={(v) => updateGlass('tintDensity', v)} />
+               <Slider label="Rim Highlight" value={glass.highlight} min={0} max={1} step={0.05} onChange={(v) => updateGlass('highlight', v)} />
+               <Slider label="Reflection" value={glass.reflection} min={0} max={1} step={0.05} onChange={(v) => updateGlass('reflection', v)} />
+               {(glass.shape === 'rect' || (glass.shape === 'squircle' && glass.squircleMode === 'corners')) && (
                  <Slider label="Corner Radius" value={glass.radius} min={0} max={250} onChange={(v) => updateGlass('radius', v)} />
                )}
+               {glass.shape === 'squircle' && (
+                 <Slider label="Squircle Exponent" value={glass.squircleExponent} min={2} max={12} step={0.1} onChange={(v) => updateGlass('squircleExponent', v)} />
+               )}
+               {glass.profile === 'liquid' && (
+                 <Slider label="Noise Seed" value={glass.seed} min={0} max={999} onChange={(v) => updateGlass('seed', v)} />
+               )}
+               {glass.profile === 'liquid' && (
+                 <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.S }}>
+                    <label style={Theme.Type.Readable.Label.S}>Liquid Motion</label>
+                    <ToggleGroup 
+                      options={['off', 'on']} 
+                      value={glass.animate} 
+                      onChange={(v) => {
+                        updateGlass('animate', v);
+                        addLog(`Liquid motion switched ${v}`, 'system');
+                      }} 
+                    />
+                 </div>
+               )}
             </div>
           )}
-          {win.id === 'code' && <CodeIO />}
+          {win.id === 'code' && (
+            <CodeIO 
+              intensity={glass.intensity} 
+              squircleExponent={glass.squircleExponent} 
+              squircleMode={glass.squircleMode} 
+              radius={glass.radius} 
+            />
+          )}
           {win.id === 'console' && <Console logs={logs} />}
+          {win.id === 'curve' && (
+            <CurveEditor 
+              value={glass.curve} 
+              onChange={(v) => {
+                updateGlass('curve', v);
+                if (glass.profile !== 'custom') {
+                  updateGlass('profile', 'custom');
+                  addLog('Profile switched to custom curve', 'action');
+                }
+              }} 
+            />
+          )}
         </DraggableWindow>
       ))}
 
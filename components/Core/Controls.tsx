@@ -107,3 +107,80 @@ export const ToggleGroup: React.FC<ToggleGroupProps> = ({ options, value, onChan
     </div>
   );
 };
+
+interface ButtonProps {
+  label: string;
+  onClick: () => void;
+  /** Highlighted like the selected ToggleGroup option */
+  active?: boolean;
+}
+
+export const Button: React.FC<ButtonProps> = ({ label, onClick, active = false }) => {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        border: 'none',
+        padding: `6px ${Theme.Space.S}px`,
+        borderRadius: Theme.Radius.S,
+        background: active ? Theme.Color.Base.Surface[2] : Theme.Color.Base.Surface[3],
+        boxShadow: active ? Theme.Effect.Shadow.Drop[1] : 'none',
+        color: active ? Theme.Color.Base.Content[1] : Theme.Color.Base.Content[3],
+        ...Theme.Type.Readable.Label.XS,
+        cursor: 'pointer',
+        transition: 'color 0.2s, background 0.2s',
+      }}
+    >
+      {label.toUpperCase()}
+    </button>
+  );
+};
+
+interface ColorPickerProps {
+  label: string;
+  value: string;
+  /** Quick picks shown before the free picker, keyed by name */
+  swatches?: Record<string, string>;
+  onChange: (val: string) => void;
+}
+
+export const ColorPicker: React.FC<ColorPickerProps> = ({ label, value, swatches = {}, onChange }) => {
+  const swatchStyle = (color: string, isActive: boolean): React.CSSProperties => ({
+    width: '20px',
+    height: '20px',
+    padding: 0,
+    borderRadius: Theme.Radius.Full,
+    border: 'none',
+    background: color,
+    cursor: 'pointer',
+    boxShadow: isActive
+      ? `0 0 0 2px ${Theme.Color.Base.Surface[2]}, 0 0 0 3px ${Theme.Color.Base.Content[1]}`
+      : `0 0 0 1px ${Theme.Color.Effect.Glass.Border}`,
+    transition: 'box-shadow 0.2s',
+  });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.XS }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ ...Theme.Type.Readable.Label.S, color: Theme.Color.Base.Content[2] }}>{label}</span>
+        <span style={{ ...Theme.Type.Readable.Label.XS, fontFamily: 'monospace', color: Theme.Color.Base.Content[1] }}>{value}</span>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: Theme.Space.S }}>
+        {Object.keys(swatches).map((name) => (
+          <button
+            key={name}
+            title={name}
+            onClick={() => onChange(swatches[name])}
+            style={swatchStyle(swatches[name], value.toLowerCase() === swatches[name].toLowerCase())}
+          />
+        ))}
+        <input
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          style={{ ...swatchStyle(value, false), appearance: 'none', background: 'transparent', overflow: 'hidden' }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { GlassChannelLayout, displacementSelectors } from '../../utils/glassPipeline';
+import { GlassDispersion, channelScales, isDispersive } from '../../utils/dispersion';
+
+interface DispersiveDisplacementProps {
+  /** Image to displace */
+  source?: string;
+  /** Result name of the displacement map (feImage) */
+  map: string;
+  /** Result name of the final output */
+  result: string;
+  scale: number;
+  channels: GlassChannelLayout;
+  /** Scale offset per channel, or { delta, abbe }. Omit for a single plain pass. */
+  dispersion?: number | GlassDispersion;
+}
+
+/**
+ * Drop-in replacement for a single feDisplacementMap inside a <filter>.
+ * With dispersion it runs one pass per colour channel, isolates R, G and B,
+ * and adds them back together.
+ */
+export const DispersiveDisplacement: React.FC<DispersiveDisplacementProps> = ({
+  source = 'SourceGraphic',
+  map,
+  result,
+  scale,
+  channels,
+  dispersion,
+}) => {
+  const scales = channelScales(scale, dispersion);
+  const selectors = displacementSelectors(channels);
+
+  if (!isDispersive(scales)) {
+    return <feDisplacementMap in={source} in2={map} scale={scale} {...selectors} result={result} />;
+  }
+
+  return (
+    <>
+      {/* One displacement per colour channel */}
+      <feDisplacementMap in={source} in2={map} scale={scales.r} {...selectors} result={`${result}-dispR`} />
+      <feDisplacementMap in={source} in2={map} scale={scales.g} {...selectors} result={`${result}-dispG`} />
+      <feDisplacementMap in={source} in2={map} scale={scales.b} {...selectors} result={`${result}-dispB`} />
+
+      {/* Keep only the matching channel from each pass */}
+      <feComponentTransfer in={`${result}-dispR`} result={`${result}-R`}>
+        <feFuncR type="identity" />
+        <feFuncG type="discrete" tableValues="0" />
+        <feFuncB type="discrete" tableValues="0" />
+        <feFuncA type="identity" />
+      </feComponentTransfer>
+      <feComponentTransfer in={`${result}-dispG`} result={`${result}-G`}>
+        <feFuncR type="discrete" tableValues="0" />
+        <feFuncG type="identity" />
+        <feFuncB type="discrete" tableValues="0" />
+        <feFuncA type="identity" />
+      </feComponentTransfer>
+      <feComponentTransfer in={`${result}-dispB`} result={`${result}-B`}>
+        <feFuncR type="discrete" tableValues="0" />
+        <feFuncG type="discrete" tableValues="0" />
+        <feFuncB type="identity" />
+        <feFuncA type="identity" />
+      </feComponentTransfer>
+
+      {/* Additive merge; alpha saturates, which is fine for an opaque backdrop */}
+      <feComposite operator="arithmetic" k1="0" k2="1" k3="1" k4="0" in={`${result}-R`} in2={`${result}-G`} result={`${result}-RG`} />
+      <feComposite operator="arithmetic" k1="0" k2="1" k3="1" k4="0" in={`${result}-RG`} in2={`${result}-B`} result={result} />
+    </>
+  );
+};
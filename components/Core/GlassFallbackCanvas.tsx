@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GlassChannelLayout } from '../../utils/glassPipeline';
+import { GlassRenderer, GlassRendererPreference, chooseGlassRenderer } from '../../utils/glassSupport';
+import { WebGLGlassRenderer, createWebGLGlass, captureBackdrop, loadGlassMapImage } from '../../utils/webglGlass';
+
+export type GlassBackdropSource = HTMLElement | React.RefObject<HTMLElement | null> | null;
+
+/**
+ * Picks the renderer for a backdrop glass component and reports it through
+ * `onRenderer`. Drops from 'webgl' to the next option if the canvas calls `fail`.
+ */
+export function useGlassRenderer(
+  component: string,
+  preference: GlassRendererPreference = 'auto',
+  backdropSource?: GlassBackdropSource,
+  onRenderer?: (renderer: GlassRenderer) => void
+) {
+  const [backdrop, setBackdrop] = useState<HTMLElement | null>(null);
+  const [webglFailed, setWebglFailed] = useState(false);
+
+  // Refs are attached by the time effects run
+  useEffect(() => {
+    const element = backdropSource && 'current' in backdropSource ? backdropSource.current : backdropSource;
+    setBackdrop(element ?? null);
+    setWebglFailed(false);
+  }, [backdropSource]);
+
+  const renderer = chooseGlassRenderer(preference, !!backdrop && !webglFailed);
+
+  useEffect(() => {
+    onRenderer?.(renderer);
+  }, [renderer]);
+
+  const fail = (err: unknown) => {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(`[${component}] WebGL fallback failed, using the next renderer.`, err);
+    }
+    setWebglFailed(true);
+  };
+
+  return { renderer, backdrop, fail };
+}
+
+interface GlassFallbackCanvasProps {
+  /** The element behind the glass to redraw (img, canvas, video or a CSS background-image) */
+  backdrop: HTMLElement;
+  mapUrl: string;
+  channels: GlassChannelLayout;
+  /** Displacement scale in px */
+  scale: number;
+  /** Blur radius in px */
+  blur: number;
+  /** WebGL, the capture or the map failed; the parent should drop to another renderer */
+  onError: (error: unknown) => void;
+  style?: React.CSSProperties;
+}
+
+/**
+ * The 'webgl' glass renderer: a canvas filling its parent that redraws the
+ * backdrop through the map every frame the geometry changes (or every frame
+ * for video and live canvases). See utils/glassSupport.ts.
+ */
+export const GlassFallbackCanvas: React.FC<GlassFallbackCanvasProps> = ({
+  backdrop,
+  mapUrl,
+  channels,
+  scale,
+  blur,
+  onError,
+  style = {},
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<WebGLGlassRenderer | null>(null);
+  const liveRef = useRef(false);
+  const dirtyRef = useRef(true);
+  const paramsRef = useRef({ scale, blur, channels });
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    paramsRef.current = { scale, blur, channels };
+    dirtyRef.current = true;
+  }, [scale, blur, channels]);
+
+  // 1. Renderer lifetime
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createWebGLGlass(canvas);
+    if (!renderer) {
+      onErrorRef.current(new Error('WebGL unavailable'));
+      return;
+    }
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  // 2. Backdrop capture
+  useEffect(() => {
+    let cancelled = false;
+    captureBackdrop(backdrop).then((captured) => {
+      if (cancelled || !rendererRef.current) return;
+      if (!captured) throw new Error('Backdrop has no image, canvas, video or background-image to capture');
+      rendererRef.current.setSource(captured.source); // SecurityError for tainted images
+      liveRef.current = captured.live;
+      dirtyRef.current = true;
+    }).catch((err) => {
+      if (!cancelled) onErrorRef.current(err);
+    });
+    return () => { cancelled = true; };
+  }, [backdrop]);
+
+  // 3. Map upload
+  useEffect(() => {
+    if (!mapUrl) return;
+    let cancelled = false;
+    loadGlassMapImage(mapUrl).then((image) => {
+      if (cancelled || !rendererRef.current) return;
+      rendererRef.current.setMap(image);
+      dirtyRef.current = true;
+    }).catch((err) => {
+      if (!cancelled) onErrorRef.current(err);
+    });
+    return () => { cancelled = true; };
+  }, [mapUrl]);
+
+  // 4. Draw loop: skips frames where nothing moved
+  useEffect(() => {
+    let frame = 0;
+    let lastKey = '';
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      const renderer = rendererRef.current;
+      const canvas = canvasRef.current;
+      if (!renderer || !canvas) return;
+
+      const glass = canvas.getBoundingClientRect();
+      const area = backdrop.getBoundingClientRect();
+      const key = `${glass.left},${glass.top},${glass.width},${glass.height}|${area.left},${area.top},${area.width},${area.height}`;
+      if (!liveRef.current && !dirtyRef.current && key === lastKey) return;
+
+      try {
+        if (liveRef.current) renderer.setSource(backdrop as HTMLCanvasElement | HTMLVideoElement);
+        renderer.draw({ glass, backdrop: area, ...paramsRef.current });
+      } catch (err) {
+        cancelAnimationFrame(frame);
+        onErrorRef.current(err);
+        return;
+      }
+      lastKey = key;
+      dirtyRef.current = false;
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [backdrop]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-hidden="true"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        width: '100%',
+        height: '100%',
+        borderRadius: 'inherit',
+        pointerEvents: 'none',
+        ...style,
+      }}
+    />
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { GlassChannelLayout, displacementSelectors, channelToAlphaMatrix } from '../../utils/glassPipeline';
+
+interface GlassFrostProps {
+  /** The glass body to frost */
+  in: string;
+  /** Result name of the final output */
+  result: string;
+  /** Frost map URL ('frost' backend) */
+  frostUrl: string;
+  channels: GlassChannelLayout;
+  width: number;
+  height: number;
+  /** Scatter distance and blur, in px */
+  amount: number;
+  /** Etched areas painted as an image or SVG: its alpha multiplies the frost mask */
+  etch?: string;
+}
+
+/**
+ * Filter fragment for frosted glass. Scatters `in` along the grain, blurs and
+ * lifts it slightly, then lays it back over the clear body wherever the frost
+ * mask (times the optional etch image) says so.
+ */
+export const GlassFrost: React.FC<GlassFrostProps> = ({
+  in: source,
+  result,
+  frostUrl,
+  channels,
+  width,
+  height,
+  amount,
+  etch,
+}) => {
+  // Frosted glass reads slightly milky
+  const lift = Math.min(0.2, amount * 0.02);
+
+  return (
+    <>
+      <feImage
+        href={frostUrl}
+        x="0" y="0"
+        width={width}
+        height={height}
+        preserveAspectRatio="none"
+        result={`${result}-grain`}
+      />
+
+      {/* Scatter along the grain, then soften */}
+      <feDisplacementMap
+        in={source}
+        in2={`${result}-grain`}
+        scale={amount * 2}
+        {...displacementSelectors(channels)}
+        result={`${result}-scatter`}
+      />
+      <feGaussianBlur in={`${result}-scatter`} stdDeviation={amount / 2} edgeMode="duplicate" result={`${result}-blur`} />
+      <feComponentTransfer in={`${result}-blur`} result={`${result}-frosted`}>
+        <feFuncR type="linear" slope={1 - lift} intercept={lift} />
+        <feFuncG type="linear" slope={1 - lift} intercept={lift} />
+        <feFuncB type="linear" slope={1 - lift} intercept={lift} />
+      </feComponentTransfer>
+
+      {/* Where to frost: the map's mask, optionally times the etch image */}
+      <feColorMatrix
+        in={`${result}-grain`}
+        type="matrix"
+        values={channelToAlphaMatrix(channels.mask ?? 'A')}
+        result={`${result}-mask`}
+      />
+      {etch && (
+        <>
+          <feImage
+            href={etch}
+            x="0" y="0"
+            width={width}
+            height={height}
+            preserveAspectRatio="none"
+            result={`${result}-etch`}
+          />
+          <feComposite in={`${result}-mask`} in2={`${result}-etch`} operator="in" result={`${result}-weight`} />
+        </>
+      )}
+
+      <feComposite
+        in={`${result}-frosted`}
+        in2={etch ? `${result}-weight` : `${result}-mask`}
+        operator="in"
+        result={`${result}-frost`}
+      />
+      <feComposite in={`${result}-frost`} in2={source} operator="over" result={result} />
+    </>
+  );
+};
@@ -1,7 +1,15 @@
 
 import React, { useState, useEffect, useRef, useId, useMemo } from 'react';
 import { GlassSVGDefinitions } from './GlassSVGDefinitions';
-import { generateGlassMaps } from '../../utils/generateGlassMaps';
+import { GlassMaps, acquireGlassMap, releaseGlassMap } from '../../utils/glassPipeline';
+import { GlassDispersion } from '../../utils/dispersion';
+import { GlassLight, GlassEnvironments, GlassEnvironmentName } from '../../utils/glassLighting';
+import { GlassTintPreset, resolveTint } from '../../utils/glassTint';
+import { GlassRenderer, GlassRendererPreference } from '../../utils/glassSupport';
+import { GlassFallbackCanvas, GlassBackdropSource, useGlassRenderer } from './GlassFallbackCanvas';
+import { GlassLightFollow, LightDirection, trackLight } from '../../utils/lightTracking';
+import { GlassPresetName } from '../../utils/glassPresets';
+import { useGlassSettings } from './GlassProvider';
 
 interface GlassOverlayProps {
   /** Radius of the corners in pixels. Can be single number or [tl, tr, br, bl] */
@@ -12,26 +20,71 @@ interface GlassOverlayProps {
   bgBlur?: number;
   /** Strength of the refraction displacement */
   refraction?: number;
-  /** Normalized Light Direction (-1 to 1) */
+  /** Chromatic dispersion: a red/blue scale offset, or { delta, abbe } */
+  dispersion?: number | GlassDispersion;
+  /** Tint colour: a preset ('azure', 'amber', ...) or a hex colour. Absorbed more where the glass is thicker */
+  tint?: GlassTintPreset | string;
+  /** Optical depth of the tint. 1 = the plateau shows exactly `tint`. Default 1 */
+  tintDensity?: number;
+  /** Normalized Light Direction (-1 to 1). Used when neither `lights` nor `environment` is set */
   lightDirection?: { x: number; y: number };
+  /** Move the default light with 'pointer', 'gyro', 'auto' or { x, y } MotionValues. `lightDirection` becomes the rest position. Ignored with `lights`/`environment` */
+  lightFollow?: GlassLightFollow;
+  /** Smoothing time constant for `lightFollow`, in seconds. Default 0.12 */
+  lightSmoothing?: number;
+  /** Explicit light list (point, distant, spot). Overrides the environment's lights */
+  lights?: GlassLight[];
+  /** Lighting preset: lights plus matching exponent/diffuse/shadow defaults */
+  environment?: GlassEnvironmentName;
+  /** Highlight tightness. Default 40 (or the environment's) */
+  specularExponent?: number;
+  /** Diffuse constant behind the volume shadow. Default 0.5 (or the environment's) */
+  diffuseStrength?: number;
+  /** Weight of the lit body in the shadow composite (shadow - k * litBody). Default 0.6 (or the environment's) */
+  shadowStrength?: number;
+  /** 'auto' picks SVG backdrop (Chromium), then WebGL (needs `backdropSource`), then plain blur */
+  renderer?: GlassRendererPreference;
+  /** Element behind the glass for the WebGL fallback: an img, canvas, video or CSS background-image */
+  backdropSource?: GlassBackdropSource;
+  /** Called with the renderer actually in use, and again whenever it changes */
+  onRenderer?: (renderer: GlassRenderer) => void;
+  /** Named look; props set here still win. Unset props also fall back to the nearest GlassProvider */
+  preset?: GlassPresetName;
   /** Show the displacement map for debugging */
   debug?: boolean;
   className?: string;
   style?: React.CSSProperties;
 }
 
-export const GlassOverlay: React.FC<GlassOverlayProps> = ({
-  radius = 24,
-  bezel = 16,
-  bgBlur = 12,
-  refraction = 20,
-  lightDirection = { x: 0.5, y: -0.5 },
-  debug = false,
-  className = '',
-  style = {},
-}) => {
+export const GlassOverlay: React.FC<GlassOverlayProps> = (props) => {
+  const glass = useGlassSettings(props.preset);
+  const {
+    radius = glass.radius ?? 24,
+    bezel = glass.bezel ?? 16,
+    bgBlur = glass.blur ?? 12,
+    refraction = glass.refraction ?? 20,
+    dispersion = glass.dispersion,
+    tint = glass.tint,
+    tintDensity = glass.tintDensity ?? 1,
+    lightDirection = { x: 0.5, y: -0.5 },
+    lightFollow,
+    lightSmoothing = 0.12,
+    lights,
+    environment,
+    specularExponent,
+    diffuseStrength,
+    shadowStrength,
+    renderer: rendererPreference = glass.renderer ?? 'auto',
+    backdropSource,
+    onRenderer,
+    debug = false,
+    className = '',
+    style = {},
+  } = props;
+
   const containerRef = useRef<HTMLDivElement>(null);
-  const [mapUrl, setMapUrl] = useState<string>('');
+  const [maps, setMaps] = useState<GlassMaps | null>(null);
+  const mapUrl = maps?.surfaceUrl ?? '';
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   
   const rawId = useId();
@@ -59,26 +112,74 @@ export const GlassOverlay: React.FC<GlassOverlayProps> = ({
 
     // Debounce slightly to prevent thrashing
     const timer = setTimeout(() => {
-      const url = generateGlassMaps(
-        dimensions.width,
-        dimensions.height,
+      acquireGlassMap(filterId, {
+        backend: 'svg-gradient',
+        width: dimensions.width,
+        height: dimensions.height,
         radius,
         bezel,
-        15, // blur
-        'convex'
-      );
-      setMapUrl(url);
+        blur: 15,
+      }).then(setMaps).catch(() => {
+        // Superseded by a newer request (failures resolve blank)
+      });
     }, 50);
 
     return () => clearTimeout(timer);
-  }, [dimensions.width, dimensions.height, radius, bezel]);
+  }, [filterId, dimensions.width, dimensions.height, radius, bezel]);
+
+  useEffect(() => () => releaseGlassMap(filterId), [filterId]);
+
+  // 3. Resolve Lights: explicit list, then environment, then a point light from lightDirection
+  const env = environment ? GlassEnvironments[environment] : undefined;
+  const usesDefaultLight = !lights && !env;
+  const tracked = useRef<LightDirection | null>(null);
+  const direction = (lightFollow && tracked.current) || lightDirection;
 
-  // 3. Calculate Light Position for SVG (assuming standard coordinate space)
-  const lightPos = useMemo(() => ({
-    x: dimensions.width / 2 + (lightDirection.x * dimensions.width),
-    y: dimensions.height / 2 + (lightDirection.y * dimensions.height),
+  const resolvedLights = useMemo<GlassLight[]>(() => lights ?? env?.lights ?? [{
+    type: 'point',
+    x: dimensions.width / 2 + (direction.x * dimensions.width),
+    y: dimensions.height / 2 + (direction.y * dimensions.height),
     z: 60, // Light height
-  }), [lightDirection, dimensions]);
+  }], [lights, env, direction, dimensions]);
+
+  // 4. Follow the pointer / gyro / MotionValues
+  // Writes straight to the fePointLight attributes each frame; React only
+  // picks up the latest direction on its next render (e.g. a resize).
+  const dimensionsRef = useRef(dimensions);
+  dimensionsRef.current = dimensions;
+  const followRef = useRef(lightFollow);
+  followRef.current = lightFollow;
+  const followX = typeof lightFollow === 'object' ? lightFollow.x : lightFollow;
+  const followY = typeof lightFollow === 'object' ? lightFollow.y : undefined;
+
+  useEffect(() => {
+    const follow = followRef.current;
+    if (!follow || !usesDefaultLight || !containerRef.current) {
+      tracked.current = null;
+      return;
+    }
+
+    return trackLight({
+      follow,
+      element: containerRef.current,
+      rest: { x: lightDirection.x, y: lightDirection.y },
+      start: tracked.current ?? undefined,
+      smoothing: lightSmoothing,
+      onUpdate: (dir) => {
+        tracked.current = { ...dir };
+        const { width, height } = dimensionsRef.current;
+        const nodes = document.getElementById(filterId)?.querySelectorAll('fePointLight');
+        nodes?.forEach((node) => {
+          node.setAttribute('x', String(width / 2 + dir.x * width));
+          node.setAttribute('y', String(height / 2 + dir.y * height));
+        });
+      },
+    });
+  }, [followX, followY, usesDefaultLight, lightDirection.x, lightDirection.y, lightSmoothing, filterId]);
+
+  // 5. Renderer: SVG backdrop where supported, else WebGL over `backdropSource`, else blur
+  const { renderer, backdrop, fail } = useGlassRenderer('GlassOverlay', rendererPreference, backdropSource, onRenderer);
+  const svgFilter = renderer === 'svg-backdrop' && !!mapUrl;
 
   // CSS Border Radius helper
   const borderRadiusCSS = Array.isArray(radius) 
@@ -88,12 +189,18 @@ export const GlassOverlay: React.FC<GlassOverlayProps> = ({
   return (
     <>
       {/* Defines the Filter Logic - Only renders if map is ready */}
-      {mapUrl && (
+      {svgFilter && (
         <GlassSVGDefinitions
           filterId={filterId}
           mapUrl={mapUrl}
-          lightPos={lightPos}
+          channels={maps?.channels}
+          lights={resolvedLights}
+          specularExponent={specularExponent ?? env?.specularExponent}
+          diffuseStrength={diffuseStrength ?? env?.diffuseStrength}
+          shadowStrength={shadowStrength ?? env?.shadowStrength}
           refractionScale={refraction}
+          dispersion={dispersion}
+          tint={tint ? resolveTint(tint, tintDensity) : undefined}
           specularConstant={1.5}
           lightingIntensity={20} // Depth of the bezel
         />
@@ -103,6 +210,7 @@ export const GlassOverlay: React.FC<GlassOverlayProps> = ({
       <div 
         ref={containerRef} 
         className={className}
+        data-glass-renderer={renderer}
         style={{
           position: 'absolute',
           inset: 0,
@@ -111,9 +219,10 @@ export const GlassOverlay: React.FC<GlassOverlayProps> = ({
           
           // MATERIAL:
           // 1. Blur the background
-          // 2. Apply the generated filter via URL (Chromium only currently)
-          backdropFilter: mapUrl ? `url(#${filterId}) blur(${bgBlur}px)` : `blur(${bgBlur}px)`,
-          WebkitBackdropFilter: mapUrl ? `url(#${filterId}) blur(${bgBlur}px)` : `blur(${bgBlur}px)`,
+          // 2. Apply the generated filter via URL (Chromium only, see useGlassRenderer)
+          //    The WebGL renderer draws its own blurred, refracted backdrop instead
+          backdropFilter: renderer === 'webgl' ? 'none' : svgFilter ? `url(#${filterId}) blur(${bgBlur}px)` : `blur(${bgBlur}px)`,
+          WebkitBackdropFilter: renderer === 'webgl' ? 'none' : svgFilter ? `url(#${filterId}) blur(${bgBlur}px)` : `blur(${bgBlur}px)`,
           
           // 3. Base tint
           backgroundColor: debug ? 'transparent' : 'rgba(255, 255, 255, 0.02)',
@@ -125,6 +234,18 @@ export const GlassOverlay: React.FC<GlassOverlayProps> = ({
           ...style
         }}
       >
+        {/* WEBGL FALLBACK: redraws `backdropSource` through the same map */}
+        {renderer === 'webgl' && backdrop && mapUrl && maps && (
+          <GlassFallbackCanvas
+            backdrop={backdrop}
+            mapUrl={mapUrl}
+            channels={maps.channels}
+            scale={refraction}
+            blur={bgBlur}
+            onError={fail}
+          />
+        )}
+
         {/* DEBUG LAYER: Show the map if requested */}
         {debug && mapUrl && (
           <div style={{
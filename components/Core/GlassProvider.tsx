@@ -0,0 +1,53 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import {
+  GlassSettings, GlassPresetName, GlassPresets, GlassQuality, GlassQualityTiers,
+  detectGlassQuality, mergeGlassSettings,
+} from '../../utils/glassPresets';
+
+interface GlassProviderValue {
+  /** Provider presets and defaults, already layered over any outer provider */
+  settings: GlassSettings;
+  quality?: GlassQuality;
+}
+
+const GlassSettingsContext = createContext<GlassProviderValue>({ settings: {} });
+
+interface GlassProviderProps {
+  children?: React.ReactNode;
+  /** Base look for everything inside */
+  preset?: GlassPresetName;
+  /** App-wide defaults, applied over `preset` */
+  defaults?: GlassSettings;
+  /** 'auto' picks from the device (see detectGlassQuality). Inherited when unset */
+  quality?: GlassQuality | 'auto';
+}
+
+/**
+ * App-wide glass defaults. Nested providers layer over their parent.
+ * See utils/glassPresets.ts for the order presets, quality and props apply in.
+ */
+export const GlassProvider: React.FC<GlassProviderProps> = ({ children, preset, defaults, quality }) => {
+  const parent = useContext(GlassSettingsContext);
+  // Detected once per provider; the hardware doesn't change under us
+  const [detected] = useState(detectGlassQuality);
+  const tier = quality === 'auto' ? detected : quality ?? parent.quality;
+
+  const value = useMemo<GlassProviderValue>(() => ({
+    settings: mergeGlassSettings(parent.settings, preset && GlassPresets[preset], defaults),
+    quality: tier,
+  }), [parent, preset, defaults, tier]);
+
+  return <GlassSettingsContext.Provider value={value}>{children}</GlassSettingsContext.Provider>;
+};
+
+/**
+ * The settings a glass component should fall back to when a prop is unset,
+ * with the component's own `preset` prop layered in.
+ */
+export function useGlassSettings(preset?: GlassPresetName): GlassSettings {
+  const { settings, quality } = useContext(GlassSettingsContext);
+  return useMemo(
+    () => mergeGlassSettings(settings, preset && GlassPresets[preset], quality && GlassQualityTiers[quality]),
+    [settings, preset, quality]
+  );
+}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { GlassChannelLayout, displacementSelectors, channelToAlphaMatrix } from '../../utils/glassPipeline';
+import { GlassEnvironmentMap, environmentImageUrl, fresnelTransfer } from '../../utils/glassReflection';
+
+interface GlassReflectionProps {
+  /** The refracted body to reflect over */
+  in: string;
+  /** Result name of the displacement map (feImage) */
+  map: string;
+  /** Result name of the final output */
+  result: string;
+  width: number;
+  height: number;
+  channels: GlassChannelLayout;
+  /** Reflection strength, 0-1 */
+  strength: number;
+  /** Reflectance head-on, see `fresnelF0` */
+  f0: number;
+  /** Image URL or generated sky. Default: a soft daylight sky */
+  environment?: GlassEnvironmentMap;
+  /** How far the normals swing the environment lookup, in px. Default half the short side */
+  lookupScale?: number;
+}
+
+/**
+ * Filter fragment that blends a reflected environment over `in`.
+ * The environment is warped by the map's X/Y (normal) channels and weighted
+ * by a Fresnel term from the height channel, so it gathers at the bezel edge.
+ */
+export const GlassReflection: React.FC<GlassReflectionProps> = ({
+  in: source,
+  map,
+  result,
+  width,
+  height,
+  channels,
+  strength,
+  f0,
+  environment,
+  lookupScale = Math.min(width, height) / 2,
+}) => {
+  const fresnel = fresnelTransfer(strength, f0);
+
+  return (
+    <>
+      {/* Environment, covering the element */}
+      <feImage
+        href={environmentImageUrl(environment)}
+        x="0" y="0"
+        width={width}
+        height={height}
+        preserveAspectRatio="xMidYMid slice"
+        result={`${result}-env`}
+      />
+
+      {/* Look the environment up along the surface normals */}
+      <feDisplacementMap
+        in={`${result}-env`}
+        in2={map}
+        scale={lookupScale}
+        {...displacementSelectors(channels)}
+        result={`${result}-lookup`}
+      />
+
+      {/* Fresnel weight: 1 - height into alpha, then Schlick's curve */}
+      <feColorMatrix
+        in={map}
+        type="matrix"
+        values={channelToAlphaMatrix(channels.height ?? 'B', true)}
+        result={`${result}-rim`}
+      />
+      <feComponentTransfer in={`${result}-rim`} result={`${result}-fresnel`}>
+        <feFuncA type="gamma" amplitude={fresnel.amplitude} exponent={fresnel.exponent} offset={fresnel.offset} />
+      </feComponentTransfer>
+
+      {/* Clip the Fresnel weight to the glass when the map carries a mask */}
+      {channels.mask && (
+        <>
+          <feColorMatrix
+            in={map}
+            type="matrix"
+            values={channelToAlphaMatrix(channels.mask)}
+            result={`${result}-mask`}
+          />
+          <feComposite in={`${result}-fresnel`} in2={`${result}-mask`} operator="in" result={`${result}-weight`} />
+        </>
+      )}
+
+      {/* Weighted reflection over the body */}
+      <feComposite
+        in={`${result}-lookup`}
+        in2={channels.mask ? `${result}-weight` : `${result}-fresnel`}
+        operator="in"
+        result={`${result}-reflection`}
+      />
+      <feComposite in={`${result}-reflection`} in2={source} operator="over" result={result} />
+    </>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { GlassChannelLayout, channelToAlphaMatrix } from '../../utils/glassPipeline';
+
+interface GlassRimProps {
+  /** The glass body to light */
+  in: string;
+  /** Result name of the displacement map (feImage) */
+  map: string;
+  /** Result name of the final output */
+  result: string;
+  channels: GlassChannelLayout;
+  /** Rim opacity at the very edge, 0-1 */
+  strength: number;
+  /** Any CSS colour. Default white */
+  color?: string;
+  /** Falloff exponent on 1 - height. Higher = thinner rim. Default 3 */
+  sharpness?: number;
+}
+
+/**
+ * Filter fragment for a Fresnel-style rim light. The weight comes from the
+ * map's height channel, so the rim follows the generated bezel of any shape
+ * (squircles, paths, warped outlines) instead of the CSS border box.
+ */
+export const GlassRim: React.FC<GlassRimProps> = ({
+  in: source,
+  map,
+  result,
+  channels,
+  strength,
+  color = '#ffffff',
+  sharpness = 3,
+}) => (
+  <>
+    {/* Edge weight: (1 - height)^sharpness, scaled by strength */}
+    <feColorMatrix
+      in={map}
+      type="matrix"
+      values={channelToAlphaMatrix(channels.height ?? 'B', true)}
+      result={`${result}-edge`}
+    />
+    <feComponentTransfer in={`${result}-edge`} result={`${result}-falloff`}>
+      <feFuncA type="gamma" amplitude={Math.max(0, Math.min(1, strength))} exponent={sharpness} offset="0" />
+    </feComponentTransfer>
+
+    {/* Keep it inside the glass when the map carries a mask */}
+    {channels.mask && (
+      <>
+        <feColorMatrix
+          in={map}
+          type="matrix"
+          values={channelToAlphaMatrix(channels.mask)}
+          result={`${result}-mask`}
+        />
+        <feComposite in={`${result}-falloff`} in2={`${result}-mask`} operator="in" result={`${result}-weight`} />
+      </>
+    )}
+
+    {/* Tint and lay over the body */}
+    <feFlood floodColor={color} result={`${result}-color`} />
+    <feComposite
+      in={`${result}-color`}
+      in2={channels.mask ? `${result}-weight` : `${result}-falloff`}
+      operator="in"
+      result={`${result}-light`}
+    />
+    <feComposite in={`${result}-light`} in2={source} operator="over" result={result} />
+  </>
+);
@@ -1,23 +1,79 @@
 
-import React from 'react';
+import React, { useEffect } from 'react';
+import {
+  GlassChannelLayout, STANDARD_CHANNELS, displacementSelectors, channelToAlphaMatrix, checkChannelLayout,
+} from '../../utils/glassPipeline';
+import { GlassDispersion } from '../../utils/dispersion';
+import { GlassLight } from '../../utils/glassLighting';
+import { GlassTint } from '../../utils/glassTint';
+import { DispersiveDisplacement } from './DispersiveDisplacement';
+import { GlassTintLayer } from './GlassTintLayer';
+
+// The SVG light source element for one light
+const LightSource: React.FC<{ light: GlassLight }> = ({ light }) => {
+  switch (light.type) {
+    case 'distant':
+      return <feDistantLight azimuth={light.azimuth} elevation={light.elevation} />;
+    case 'spot':
+      return (
+        <feSpotLight
+          x={light.x} y={light.y} z={light.z}
+          pointsAtX={light.pointsAtX} pointsAtY={light.pointsAtY} pointsAtZ={light.pointsAtZ ?? 0}
+          specularExponent={light.focus ?? 1}
+          limitingConeAngle={light.coneAngle}
+        />
+      );
+    default:
+      return <fePointLight x={light.x} y={light.y} z={light.z} />;
+  }
+};
 
 interface GlassSVGDefinitionsProps {
   filterId: string;
   mapUrl: string;       // Data URL from generator
-  lightPos: { x: number; y: number; z: number };
+  channels?: GlassChannelLayout; // The map's own description (maps.channels)
+  lights: GlassLight[]; // Point, distant and spot lights, each with colour and intensity
   refractionScale: number; // Intensity of displacement
+  dispersion?: number | GlassDispersion; // Per-channel scale offsets (RGB split)
+  tint?: GlassTint; // Beer–Lambert absorption, deepest on the plateau
   specularConstant: number; // Brightness of shine
+  specularExponent?: number; // Tightness of the highlight (1-128)
+  diffuseStrength?: number; // Diffuse constant feeding the volume shadow
+  shadowStrength?: number; // Weight of litBody subtracted from the shadow pass: shadow - k * litBody
   lightingIntensity: number; // Surface height for lighting
 }
 
 export const GlassSVGDefinitions: React.FC<GlassSVGDefinitionsProps> = ({
   filterId,
   mapUrl,
-  lightPos,
+  lights,
   refractionScale,
+  dispersion,
+  tint,
   specularConstant,
+  specularExponent = 40,
+  diffuseStrength = 0.5,
+  shadowStrength = 0.6,
   lightingIntensity,
+  channels = STANDARD_CHANNELS,
 }) => {
+  const selectors = displacementSelectors(channels);
+  const heightChannel = channels.height ?? 'B';
+
+  // Result names: the (tinted) body and the summed lighting
+  const body = tint ? 'tinted' : 'refracted';
+  const lit = lights.length > 0;
+  const specular = lights.length > 1 ? `specular-sum-${lights.length - 1}` : 'specular-0';
+  const diffuse = lights.length > 1 ? `diffuse-sum-${lights.length - 1}` : 'diffuse-0';
+
+  useEffect(() => {
+    checkChannelLayout('GlassSVGDefinitions', channels, {
+      displaceX: selectors.xChannelSelector,
+      displaceY: selectors.yChannelSelector,
+      height: heightChannel,
+    });
+  }, [channels, selectors.xChannelSelector, selectors.yChannelSelector, heightChannel]);
+
   return (
     <svg style={{ position: 'absolute', width: 0, height: 0, pointerEvents: 'none' }} aria-hidden="true">
       <defs>
@@ -30,7 +86,7 @@ export const GlassSVGDefinitions: React.FC<GlassSVGDefinitionsProps> = ({
           colorInterpolationFilters="sRGB"
         >
           {/* STAGE 1: Load the Generated Map */}
-          {/* Contains: R=NormX, G=NormY, B=Height */}
+          {/* Channel roles come from the map itself (`channels`) */}
           <feImage 
             result="mapImage" 
             href={mapUrl} 
@@ -38,89 +94,116 @@ export const GlassSVGDefinitions: React.FC<GlassSVGDefinitionsProps> = ({
           />
 
           {/* STAGE 1.5: Extract Height Map */}
-          {/* Move Blue Channel (Height) to Alpha Channel for Lighting Filters */}
+          {/* Move the Height Channel to Alpha for Lighting Filters */}
           <feColorMatrix 
             in="mapImage"
             type="matrix"
-            values="0 0 0 0 0
-                    0 0 0 0 0
-                    0 0 0 0 0
-                    0 0 1 0 0" 
+            values={channelToAlphaMatrix(heightChannel)} 
             result="heightMap"
           />
 
           {/* STAGE 2: Refraction (Displacement) */}
-          {/* Warps the SourceGraphic based on Red/Green channels of map */}
-          <feDisplacementMap
-            in="SourceGraphic"
-            in2="mapImage"
-            scale={refractionScale}
-            xChannelSelector="R"
-            yChannelSelector="G"
+          {/* Warps the SourceGraphic based on the map's displacement channels */}
+          {/* Split per colour channel when dispersion is set */}
+          <DispersiveDisplacement
+            map="mapImage"
             result="refracted"
+            scale={refractionScale}
+            channels={channels}
+            dispersion={dispersion}
           />
 
-          {/* STAGE 3: Specular Lighting (The Shine) */}
-          {/* Uses the Alpha channel of heightMap */}
-          <feSpecularLighting
-            in="heightMap"
-            surfaceScale={lightingIntensity}
-            specularConstant={specularConstant}
-            specularExponent="40"
-            lightingColor="#ffffff"
-            result="specular"
-          >
-            <fePointLight x={lightPos.x} y={lightPos.y} z={lightPos.z} />
-          </feSpecularLighting>
-
-          {/* STAGE 4: Diffuse Lighting (Volume/Shadow) */}
-          {/* Adds depth to the opposite side of the light */}
-          <feDiffuseLighting
-            in="heightMap"
-            surfaceScale={lightingIntensity / 2}
-            diffuseConstant="0.5"
-            lightingColor="#ffffff"
-            result="diffuse"
-          >
-            <fePointLight x={lightPos.x} y={lightPos.y} z={lightPos.z} />
-          </feDiffuseLighting>
-
-          {/* Create Shadow from Diffuse (Invert) */}
-          <feColorMatrix
-            in="diffuse"
-            type="matrix"
-            values="-1 0 0 0 1
-                    -1 0 0 0 1
-                    -1 0 0 0 1
-                     0 0 0 1 0" // Keep Alpha
-            result="shadow"
-          />
+          {/* Absorption: colour builds up with glass thickness */}
+          {tint && (
+            <GlassTintLayer in="refracted" map="mapImage" result="tinted" channels={channels} tint={tint} />
+          )}
 
-          {/* STAGE 5: Compositing */}
-          {/* Composite Lighting ON TOP of Refracted Body */}
-          
-          {/* 1. Add Specular to Refracted Body */}
-          <feComposite
-            in="specular"
-            in2="refracted"
-            operator="arithmetic"
-            k1="0" k2="1" k3="1" k4="0"
-            result="litBody"
-          />
+          {/* STAGE 3: Specular Lighting (The Shine), one pass per light */}
+          {/* STAGE 4: Diffuse Lighting (Volume/Shadow), one pass per light */}
+          {lights.map((light, i) => (
+            <React.Fragment key={i}>
+              <feSpecularLighting
+                in="heightMap"
+                surfaceScale={lightingIntensity}
+                specularConstant={specularConstant * (light.intensity ?? 1)}
+                specularExponent={specularExponent}
+                lightingColor={light.color ?? '#ffffff'}
+                result={`specular-${i}`}
+              >
+                <LightSource light={light} />
+              </feSpecularLighting>
+              <feDiffuseLighting
+                in="heightMap"
+                surfaceScale={lightingIntensity / 2}
+                diffuseConstant={diffuseStrength * (light.intensity ?? 1)}
+                lightingColor={light.color ?? '#ffffff'}
+                result={`diffuse-${i}`}
+              >
+                <LightSource light={light} />
+              </feDiffuseLighting>
+            </React.Fragment>
+          ))}
 
-          {/* 2. Add Shadows (Multiply) */}
-          <feComposite
-            in="shadow"
-            in2="litBody"
-            operator="arithmetic"
-            k1="0" k2="1" k3="-0.6" k4="0" // Subtract shadow
-            result="final"
-          />
+          {/* Sum the lights (additive) */}
+          {lights.slice(1).map((_, i) => (
+            <React.Fragment key={i}>
+              <feComposite
+                in={i === 0 ? 'specular-0' : `specular-sum-${i}`}
+                in2={`specular-${i + 1}`}
+                operator="arithmetic"
+                k1="0" k2="1" k3="1" k4="0"
+                result={`specular-sum-${i + 1}`}
+              />
+              <feComposite
+                in={i === 0 ? 'diffuse-0' : `diffuse-sum-${i}`}
+                in2={`diffuse-${i + 1}`}
+                operator="arithmetic"
+                k1="0" k2="1" k3="1" k4="0"
+                result={`diffuse-sum-${i + 1}`}
+              />
+            </React.Fragment>
+          ))}
+
+          {lit && (
+            <>
+              {/* Create Shadow from Diffuse (Invert) */}
+              <feColorMatrix
+                in={diffuse}
+                type="matrix"
+                values="-1 0 0 0 1
+                        -1 0 0 0 1
+                        -1 0 0 0 1
+                         0 0 0 1 0" // Keep Alpha
+                result="shadow"
+              />
+
+              {/* STAGE 5: Compositing */}
+              {/* Composite Lighting ON TOP of Refracted Body */}
+              
+              {/* 1. Add Specular to Refracted Body */}
+              <feComposite
+                in={specular}
+                in2={body}
+                operator="arithmetic"
+                k1="0" k2="1" k3="1" k4="0"
+                result="litBody"
+              />
+
+              {/* 2. Add Shadows (Multiply) */}
+              <feComposite
+                in="shadow"
+                in2="litBody"
+                operator="arithmetic"
+                k1="0" k2="1" k3={-shadowStrength} k4="0" // Subtract shadow
+                result="final"
+              />
+            </>
+          )}
           
           {/* 3. Final Edge Masking (Ensure strict shape bounds) */}
           {/* Use heightMap alpha to clip */}
           <feComposite
-            in="final"
+            in={lit ? 'final' : body}
             in2="heightMap"
             operator="in"
           />
@@ -0,0 +1,51 @@
+import React from 'react';
+import { GlassChannelLayout, channelToGreyMatrix } from '../../utils/glassPipeline';
+import { GlassTint, transmittanceTables } from '../../utils/glassTint';
+
+interface GlassTintLayerProps {
+  /** The refracted body to tint */
+  in: string;
+  /** Result name of the displacement map (feImage) */
+  map: string;
+  /** Result name of the final output */
+  result: string;
+  channels: GlassChannelLayout;
+  tint: GlassTint;
+}
+
+/**
+ * Filter fragment for Beer–Lambert absorption. Height becomes a per-channel
+ * transmittance image, which multiplies the body: clear at the rim, full
+ * colour on the plateau. Outside the glass (height 0) nothing changes.
+ */
+export const GlassTintLayer: React.FC<GlassTintLayerProps> = ({ in: source, map, result, channels, tint }) => {
+  const tables = transmittanceTables(tint);
+
+  return (
+    <>
+      {/* Height into R, G and B */}
+      <feColorMatrix
+        in={map}
+        type="matrix"
+        values={channelToGreyMatrix(channels.height ?? 'B')}
+        result={`${result}-depth`}
+      />
+
+      {/* Path length to transmittance, per channel */}
+      <feComponentTransfer in={`${result}-depth`} result={`${result}-transmittance`}>
+        <feFuncR type="table" tableValues={tables.r} />
+        <feFuncG type="table" tableValues={tables.g} />
+        <feFuncB type="table" tableValues={tables.b} />
+      </feComponentTransfer>
+
+      {/* Multiply */}
+      <feComposite
+        in={source}
+        in2={`${result}-transmittance`}
+        operator="arithmetic"
+        k1="1" k2="0" k3="0" k4="0"
+        result={result}
+      />
+    </>
+  );
+};
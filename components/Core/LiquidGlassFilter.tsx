@@ -1,11 +1,18 @@
 
-import React from 'react';
+import React, { useEffect } from 'react';
+import { GlassChannel, GlassChannelLayout, STANDARD_CHANNELS, checkChannelLayout } from '../../utils/glassPipeline';
+import { GlassDispersion } from '../../utils/dispersion';
+import { DispersiveDisplacement } from './DispersiveDisplacement';
 
 interface LiquidGlassFilterProps {
   id: string;
   mapUrl: string;
   scale: number;
   chromaticDelta?: number; // How much R and B separate from G
+  dispersion?: number | GlassDispersion; // Overrides chromaticDelta; { abbe } adds Abbe-based spread
+  channels?: GlassChannelLayout; // The map's own description (maps.channels)
+  xChannelSelector?: GlassChannel; // Overrides; checked against `channels` in dev
+  yChannelSelector?: GlassChannel;
 }
 
 export const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = ({
@@ -13,7 +20,15 @@ export const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = ({
   mapUrl,
   scale,
   chromaticDelta = 0,
+  dispersion,
+  channels = STANDARD_CHANNELS,
+  xChannelSelector = channels.displaceX,
+  yChannelSelector = channels.displaceY,
 }) => {
+  useEffect(() => {
+    checkChannelLayout('LiquidGlassFilter', channels, { displaceX: xChannelSelector, displaceY: yChannelSelector });
+  }, [channels, xChannelSelector, yChannelSelector]);
+
   if (!mapUrl) return null;
 
   return (
@@ -45,80 +60,16 @@ export const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = ({
 
           {/* 
              DISPLACEMENT STAGE 
-             We perform 3 displacements for RGB Split (Chromatic Aberration)
+             With dispersion: 3 displacements for RGB Split (Chromatic Aberration)
           */}
-          
-          {/* RED Channel Displacement (Shifted +) */}
-          <feDisplacementMap
-            in="SourceGraphic"
-            in2="map"
-            scale={scale + chromaticDelta}
-            xChannelSelector="R"
-            yChannelSelector="B"
-            result="dispR"
-          />
-
-          {/* GREEN Channel Displacement (Base Scale) */}
-          <feDisplacementMap
-            in="SourceGraphic"
-            in2="map"
+          <DispersiveDisplacement
+            map="map"
+            result="final"
             scale={scale}
-            xChannelSelector="R"
-            yChannelSelector="B"
-            result="dispG"
+            channels={{ ...channels, displaceX: xChannelSelector, displaceY: yChannelSelector }}
+            dispersion={dispersion ?? chromaticDelta}
           />
 
-          {/* BLUE Channel Displacement (Shifted -) */}
-          <feDisplacementMap
-            in="SourceGraphic"
-            in2="map"
-            scale={scale - chromaticDelta}
-            xChannelSelector="R"
-            yChannelSelector="B"
-            result="dispB"
-          />
-
-          {/* 
-             RECOMBINATION STAGE
-             We need to isolate the respective color channel from each displacement result
-             and merge them.
-          */}
-
-          {/* Isolate Red from dispR */}
-          <feComponentTransfer in="dispR" result="R_Ch">
-            <feFuncR type="identity" />
-            <feFuncG type="discrete" tableValues="0" />
-            <feFuncB type="discrete" tableValues="0" />
-            <feFuncA type="identity" /> 
-          </feComponentTransfer>
-
-          {/* Isolate Green from dispG */}
-          <feComponentTransfer in="dispG" result="G_Ch">
-            <feFuncR type="discrete" tableValues="0" />
-            <feFuncG type="identity" />
-            <feFuncB type="discrete" tableValues="0" />
-            <feFuncA type="identity" />
-          </feComponentTransfer>
-
-          {/* Isolate Blue from dispB */}
-          <feComponentTransfer in="dispB" result="B_Ch">
-            <feFuncR type="discrete" tableValues="0" />
-            <feFuncG type="discrete" tableValues="0" />
-            <feFuncB type="identity" />
-            <feFuncA type="identity" />
-          </feComponentTransfer>
-
-          {/* 
-             MERGE
-             Using 'screen' or 'lighten' to blend them back. 
-             'screen' is standard for additive light, but can wash out if not careful.
-             'lighten' (max) handles overlap well for solid colors.
-             Actually, pure addition isn't quite right for opaque pixels, 
-             but for this effect it creates the 'fringing' look.
-          */}
-          <feComposite operator="add" in="R_Ch" in2="G_Ch" result="RG" />
-          <feComposite operator="add" in="RG" in2="B_Ch" result="final" />
-
         </filter>
       </defs>
     </svg>
@@ -0,0 +1,67 @@
+import React, { forwardRef, useMemo } from 'react';
+
+type PossibleRef<T> = React.Ref<T> | undefined;
+
+/** One ref callback that feeds every ref it's given. */
+export function composeRefs<T>(...refs: PossibleRef<T>[]) {
+  return (node: T | null) => {
+    refs.forEach((ref) => {
+      if (typeof ref === 'function') ref(node);
+      else if (ref) (ref as React.MutableRefObject<T | null>).current = node;
+    });
+  };
+}
+
+interface SlotProps extends React.HTMLAttributes<HTMLElement> {
+  children?: React.ReactNode;
+}
+
+type ChildProps = React.HTMLAttributes<HTMLElement> & { ref?: React.Ref<HTMLElement> };
+
+type Handler = (...args: unknown[]) => void;
+const isHandler = (value: unknown): value is Handler => typeof value === 'function';
+
+/**
+ * The `asChild` pattern: renders its only child instead of an element of its
+ * own, merging in the slot's props. Styles merge (child wins), class names
+ * join, refs compose and event handlers run child first.
+ */
+export const Slot = forwardRef<HTMLElement, SlotProps>(({ children, ...slotProps }, ref) => {
+  const isElement = React.isValidElement(children);
+  // React 19 reads the ref from props; `element.ref` is deprecated there
+  const childRef = isElement ? (children.props as ChildProps).ref : undefined;
+  // A stable callback, so React doesn't detach and reattach the refs every render
+  const composedRef = useMemo(() => composeRefs(ref, childRef), [ref, childRef]);
+
+  if (!isElement) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('[Slot] asChild expects a single element child.');
+    }
+    return null;
+  }
+
+  const child = children as React.ReactElement;
+  const childProps = child.props as ChildProps;
+  const merged: Record<string, unknown> = { ...slotProps, ...childProps };
+
+  // Indexed views for the handler merge; values are narrowed before use
+  const slotFields = slotProps as Record<string, unknown>;
+  const childFields = childProps as Record<string, unknown>;
+  Object.keys(slotFields).forEach((key) => {
+    const slotValue = slotFields[key];
+    const childValue = childFields[key];
+    if (/^on[A-Z]/.test(key) && isHandler(slotValue) && isHandler(childValue)) {
+      merged[key] = (...args: unknown[]) => {
+        childValue(...args);
+        slotValue(...args);
+      };
+    }
+  });
+  merged.style = { ...slotProps.style, ...childProps.style };
+  merged.className = [slotProps.className, childProps.className].filter(Boolean).join(' ') || undefined;
+  merged.ref = composedRef;
+
+  return React.cloneElement(child, merged);
+});
+
+Slot.displayName = 'Slot';
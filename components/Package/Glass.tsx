@@ -0,0 +1,133 @@
+import React, { createContext, forwardRef, useContext, useMemo } from 'react';
+import { GlassBubble, GlassBubbleProps } from './GlassBubble';
+import { Slot } from '../Core/Slot';
+import { GlassProvider, useGlassSettings } from '../Core/GlassProvider';
+import { GlassPresetName } from '../../utils/glassPresets';
+
+/**
+ * Glass Primitives
+ * ----------------
+ * Composable glass in three layers:
+ *
+ *   <Glass.Root radius={28} bezel={20}>
+ *     <Glass.Surface refraction={30} blur={4} tint="azure" />
+ *     <Glass.Content>...</Glass.Content>
+ *   </Glass.Root>
+ *
+ * Prop names are the same everywhere: `radius` and `bezel` in px (set once on
+ * Root, overridable on Surface), `refraction` for displacement strength in px,
+ * `blur` for the backdrop blur in px. Root and Content take `asChild` to render
+ * their child element instead of a div. Unset props fall back to the Root's
+ * `preset`, then the nearest GlassProvider.
+ */
+
+interface GlassRootContext {
+  radius: number;
+  bezel: number;
+}
+
+// Empty outside a Root: Surface then resolves its own defaults
+const GlassContext = createContext<Partial<GlassRootContext>>({});
+
+export interface GlassRootProps extends React.HTMLAttributes<HTMLElement> {
+  children?: React.ReactNode;
+  /** Corner radius in px, shared with Surface and Content. Default 32 */
+  radius?: number;
+  /** Bevelled edge width in px, shared with Surface and Content. Default 24 */
+  bezel?: number;
+  /** Named look for the Surface and Content inside */
+  preset?: GlassPresetName;
+  /** Render the single child element instead of a div, merging props onto it */
+  asChild?: boolean;
+}
+
+const GlassRootElement = forwardRef<HTMLElement, Omit<GlassRootProps, 'preset'>>(({
+  radius,
+  bezel,
+  asChild = false,
+  style,
+  ...rest
+}, ref) => {
+  const glass = useGlassSettings();
+  const Element = asChild ? Slot : 'div';
+  const shared = useMemo(() => ({
+    radius: radius ?? glass.radius ?? 32,
+    bezel: bezel ?? glass.bezel ?? 24,
+  }), [radius, bezel, glass]);
+
+  return (
+    <GlassContext.Provider value={shared}>
+      <Element
+        {...rest}
+        ref={ref}
+        // Isolated so the Surface can sit at z-index -1 behind the Content
+        style={{ position: 'relative', isolation: 'isolate', borderRadius: shared.radius, ...style }}
+      />
+    </GlassContext.Provider>
+  );
+});
+
+// The preset applies to everything inside, like a scoped provider.
+// Always wrapped, so toggling `preset` doesn't remount the children
+const GlassRoot = forwardRef<HTMLElement, GlassRootProps>(({ preset, ...props }, ref) => (
+  <GlassProvider preset={preset}>
+    <GlassRootElement {...props} ref={ref} />
+  </GlassProvider>
+));
+
+GlassRoot.displayName = 'Glass.Root';
+
+export interface GlassSurfaceProps extends Omit<GlassBubbleProps, 'children' | 'intensity'> {
+  /** Displacement strength in px. Ignored with `ior`, which derives its own. Default 30 */
+  refraction?: number;
+}
+
+/** The glass itself: fills the Root behind the Content. `radius` and `bezel` default to the Root's. */
+const GlassSurface = forwardRef<HTMLElement, GlassSurfaceProps>(({
+  refraction,
+  radius,
+  bezel,
+  entrance = false,
+  style,
+  ...rest
+}, ref) => {
+  const root = useContext(GlassContext);
+
+  return (
+    <GlassBubble
+      {...rest}
+      ref={ref}
+      aria-hidden="true"
+      intensity={refraction}
+      radius={radius ?? root.radius}
+      bezel={bezel ?? root.bezel}
+      entrance={entrance}
+      style={{ position: 'absolute', inset: 0, width: 'auto', height: 'auto', zIndex: -1, ...style }}
+    />
+  );
+});
+
+GlassSurface.displayName = 'Glass.Surface';
+
+export interface GlassContentProps extends React.HTMLAttributes<HTMLElement> {
+  children?: React.ReactNode;
+  /** Render the single child element instead of a div, merging props onto it */
+  asChild?: boolean;
+}
+
+/** Sits above the Surface. Padded by the Root's bezel so text stays on the flat, undistorted glass. */
+const GlassContent = forwardRef<HTMLElement, GlassContentProps>(({ asChild = false, style, ...rest }, ref) => {
+  const glass = useGlassSettings();
+  const bezel = useContext(GlassContext).bezel ?? glass.bezel ?? 24;
+  const Element = asChild ? Slot : 'div';
+
+  return <Element {...rest} ref={ref} style={{ position: 'relative', padding: bezel, ...style }} />;
+});
+
+GlassContent.displayName = 'Glass.Content';
+
+export const Glass = {
+  Root: GlassRoot,
+  Surface: GlassSurface,
+  Content: GlassContent,
+};
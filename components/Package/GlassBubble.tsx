@@ -1,34 +1,178 @@
-import React, { useState, useEffect, useRef, useId, useMemo } from 'react';
-import { generateGlassMaps, GlassShape } from '../../utils/glassGenerator';
+import React, { useState, useEffect, useRef, useId, useMemo, useCallback, forwardRef } from 'react';
+import {
+  GlassMaps, GlassSurfaceOptions, GlassShape, GlassShapeProfile, GlassProfileCurve, GlassSquircleMode,
+  GlassIorPreset, GlassMapEncoding, GlassChannel,
+  acquireGlassMap, releaseGlassMap, requestGlassMaps, cancelGlassMaps, releaseGlassMaps,
+  STANDARD_CHANNELS, checkChannelLayout,
+} from '../../utils/glassPipeline';
+import { expandTableValues } from '../../utils/mapEncoding';
+import { GlassDispersion } from '../../utils/dispersion';
+import { GlassEnvironmentMap, fresnelF0 } from '../../utils/glassReflection';
+import { GlassTintPreset, resolveTint } from '../../utils/glassTint';
+import { DispersiveDisplacement } from '../Core/DispersiveDisplacement';
+import { GlassReflection } from '../Core/GlassReflection';
+import { GlassRim } from '../Core/GlassRim';
+import { GlassTintLayer } from '../Core/GlassTintLayer';
+import { GlassFallbackCanvas, GlassBackdropSource, useGlassRenderer } from '../Core/GlassFallbackCanvas';
+import { GlassRenderer, GlassRendererPreference } from '../../utils/glassSupport';
+import { GlassPresetName } from '../../utils/glassPresets';
+import { useGlassSettings } from '../Core/GlassProvider';
 import { Theme } from '../../utils/theme';
-import { motion } from 'framer-motion';
+import { motion, HTMLElements } from 'framer-motion';
 
-interface GlassBubbleProps {
+const FE_FUNC = { R: 'feFuncR', G: 'feFuncG', B: 'feFuncB', A: 'feFuncA' } as const satisfies Record<GlassChannel, string>;
+
+export interface GlassAnimation {
+  /** Max map regenerations per second */
+  fps?: number;
+  /** Noise time units per second */
+  speed?: number;
+}
+
+export interface GlassBubbleProps extends Omit<React.HTMLAttributes<HTMLElement>, 'onAnimationStart' | 'onDrag' | 'onDragStart' | 'onDragEnd'> {
+  /** Rendered above the glass, laid out by the bubble's own `style` and `className` */
+  children?: React.ReactNode;
+  className?: string;
+  /** Merged over the defaults (relative, 100% of the parent) */
+  style?: React.CSSProperties;
+  /** Element to render as, e.g. 'section', 'nav' or 'dialog'. Default 'div' */
+  as?: keyof HTMLElements;
+  /** Fade and scale in on mount. Default true */
+  entrance?: boolean;
+  /** Named look; props set here still win. Unset props also fall back to the nearest GlassProvider */
+  preset?: GlassPresetName;
   radius?: number;
   bezel?: number;
   intensity?: number;
   blur?: number;
   debug?: boolean;
   shape?: GlassShape;
+  /** Preset name, or a custom bezel curve (memoise objects/functions to avoid regenerating) */
+  profile?: GlassShapeProfile | GlassProfileCurve;
+  /** Superellipse exponent for 'squircle' (2 = circle, 4 = classic, higher = boxier) */
+  squircleExponent?: number;
+  /** 'corners' applies the superellipse to `radius`-sized corners only */
+  squircleMode?: GlassSquircleMode;
+  /** Noise turbulence applied to the outline (0 = clean edge) */
+  warp?: number;
+  /** Noise seed for 'liquid' and warp. Keeps the surface stable across regenerations */
+  seed?: number;
+  /**
+   * Physical refraction: index of refraction (1.0-2.4) or a material such as 'crown' or 'diamond'.
+   * Displacement follows Snell's law and `intensity` is ignored in favour of the derived scale.
+   */
+  ior?: number | GlassIorPreset;
+  /** Glass thickness in pixels for `ior` mode. Defaults to the bezel width */
+  thickness?: number;
+  /** R/G quantisation: 'dither' or 'companded' remove bezel banding at high intensity */
+  encoding?: GlassMapEncoding;
+  /** Chromatic dispersion: a red/blue scale offset, or { delta, abbe } */
+  dispersion?: number | GlassDispersion;
+  /** Tint colour: a preset ('azure', 'amber', ...) or a hex colour. Absorbed more where the glass is thicker */
+  tint?: GlassTintPreset | string;
+  /** Optical depth of the tint. 1 = the plateau shows exactly `tint`. Default 1 */
+  tintDensity?: number;
+  /** Rim light strength (0-1), traced from the map's height channel so it hugs any shape */
+  highlight?: number;
+  /** Rim light colour. Default white */
+  rimColor?: string;
+  /** Environment reflection strength (0-1), Fresnel-weighted towards the bezel edge. Default 0 (off) */
+  reflection?: number;
+  /** Image URL or { zenith, horizon, ground } sky to reflect. Defaults to a daylight sky */
+  environment?: GlassEnvironmentMap;
+  /** 'auto' picks SVG backdrop (Chromium), then WebGL (needs `backdropSource`), then plain blur */
+  renderer?: GlassRendererPreference;
+  /** Element behind the glass for the WebGL fallback: an img, canvas, video or CSS background-image */
+  backdropSource?: GlassBackdropSource;
+  /** Called with the renderer actually in use, and again whenever it changes */
+  onRenderer?: (renderer: GlassRenderer) => void;
+  /** Evolve the noise over time so 'liquid' (or warped) surfaces ripple. Honours reduced motion */
+  animate?: boolean | GlassAnimation;
 }
 
-export const GlassBubble: React.FC<GlassBubbleProps> = ({
-  radius = 32,
-  bezel = 24,
-  intensity = 30,
-  blur = 2,
-  debug = false,
-  shape = 'rect',
-}) => {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [mapUrl, setMapUrl] = useState<string>('');
+export const GlassBubble = forwardRef<HTMLElement, GlassBubbleProps>((props, ref) => {
+  const glass = useGlassSettings(props.preset);
+  const {
+    children,
+    className,
+    style,
+    as = 'div',
+    entrance = true,
+    radius = glass.radius ?? 32,
+    bezel = glass.bezel ?? 24,
+    intensity = glass.refraction ?? 30,
+    blur = glass.blur ?? 2,
+    debug = false,
+    shape = 'rect',
+    profile = 'convex',
+    squircleExponent = 4,
+    squircleMode = 'full',
+    warp = 0,
+    seed = 1,
+    ior,
+    thickness,
+    encoding = glass.encoding ?? 'linear',
+    dispersion = glass.dispersion,
+    tint = glass.tint,
+    tintDensity = glass.tintDensity ?? 1,
+    highlight = glass.highlight ?? 0.5,
+    rimColor = glass.rimColor ?? '#ffffff',
+    reflection = glass.reflection ?? 0,
+    environment,
+    renderer: rendererPreference = glass.renderer ?? 'auto',
+    backdropSource,
+    onRenderer,
+    animate = false,
+    preset: _preset,
+    ...rest
+  } = props;
+
+  const containerRef = useRef<HTMLElement | null>(null);
+  const frameRef = useRef<GlassMaps | null>(null);
+  const [maps, setMaps] = useState<GlassMaps | null>(null);
+  const mapUrl = maps?.surfaceUrl ?? '';
+  const mapScale = maps?.scale;
+  const mapError = maps?.quantizationError;
+  const channels = maps?.channels ?? STANDARD_CHANNELS;
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [inView, setInView] = useState(true);
+  const [pageVisible, setPageVisible] = useState(true);
+  const [reducedMotion, setReducedMotion] = useState(false);
+
+  const animated = !!animate;
+  const animation: GlassAnimation = typeof animate === 'object' ? animate : {};
+  const fps = animation.fps ?? glass.fps ?? 15;
+  const speed = animation.speed ?? 0.25;
+  const wantsMotion = animated && !reducedMotion;
   
   // Unique ID for the filter to support multiple instances
   const rawId = useId();
   // Safe CSS ID
   const filterId = `liquid-glass-${rawId.replace(/[:]/g, '')}`;
 
+  // The observers below need the element too
+  const setRef = useCallback((node: HTMLElement | null) => {
+    containerRef.current = node;
+    if (typeof ref === 'function') ref(node);
+    else if (ref) ref.current = node;
+  }, [ref]);
+
+  const refraction = ior === undefined ? undefined : { ior, thickness: thickness ?? bezel };
+  const surfaceOptions = (width: number, height: number): GlassSurfaceOptions => ({
+    width,
+    height,
+    radius,
+    bezel,
+    shape,
+    profile,
+    warp,
+    seed,
+    squircleExponent,
+    squircleMode,
+    refraction,
+    encoding,
+  });
+
   // 1. Efficient Resize Observation
   useEffect(() => {
     const el = containerRef.current;
@@ -37,9 +181,10 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
     const observer = new ResizeObserver((entries) => {
       const entry = entries[0];
       if (entry) {
-        // Rounding is crucial for 1:1 pixel mapping in filters
-        const w = Math.round(entry.contentRect.width);
-        const h = Math.round(entry.contentRect.height);
+        // The glass fills the padding box, not the content box, once children add padding.
+        // clientWidth is already whole pixels, which 1:1 mapping in filters needs
+        const w = entry.target.clientWidth;
+        const h = entry.target.clientHeight;
         
         setDimensions(prev => {
            if (prev.width === w && prev.height === h) return prev;
@@ -48,33 +193,99 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
       }
     });
     
-    observer.observe(el);
+    observer.observe(el, { box: 'border-box' });
     return () => observer.disconnect();
   }, []);
 
-  // 2. Map Generation (Debounced)
+  // 2. Map Generation (Debounced, shared via the map cache, runs in a worker)
   useEffect(() => {
+    if (wantsMotion) return; // The animation loop owns the map
     if (dimensions.width === 0 || dimensions.height === 0) return;
 
     const timeout = setTimeout(() => {
-      const { surfaceUrl } = generateGlassMaps(
-        dimensions.width,
-        dimensions.height,
-        radius,
-        bezel,
-        shape as GlassShape,
-        'convex',
-        2.0
-      );
-      setMapUrl(surfaceUrl);
+      acquireGlassMap(filterId, surfaceOptions(dimensions.width, dimensions.height)).then((maps) => {
+        setMaps(maps);
+        releaseGlassMaps(frameRef.current);
+        frameRef.current = null;
+      }).catch(() => {
+        // Superseded by a newer request for this element (failures resolve blank)
+      });
     }, 50);
 
     return () => clearTimeout(timeout);
-  }, [dimensions.width, dimensions.height, radius, bezel, shape]);
+  }, [wantsMotion, filterId, dimensions.width, dimensions.height, radius, bezel, shape, profile, squircleExponent, squircleMode, warp, seed, ior, thickness, encoding]);
+
+  // Hand the maps back on unmount
+  useEffect(() => () => {
+    releaseGlassMap(filterId);
+    cancelGlassMaps(filterId);
+    releaseGlassMaps(frameRef.current);
+    frameRef.current = null;
+  }, [filterId]);
+
+  // 2b. Motion Gates: offscreen, hidden tab, reduced motion
+  useEffect(() => {
+    if (!animated) return;
+    const el = containerRef.current;
+
+    const motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const onMotionChange = () => setReducedMotion(motionQuery.matches);
+    const onVisibilityChange = () => setPageVisible(!document.hidden);
+    onMotionChange();
+    onVisibilityChange();
+    motionQuery.addEventListener('change', onMotionChange);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    const observer = el ? new IntersectionObserver(([entry]) => setInView(entry.isIntersecting)) : null;
+    if (el && observer) observer.observe(el);
+
+    return () => {
+      motionQuery.removeEventListener('change', onMotionChange);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      observer?.disconnect();
+    };
+  }, [animated]);
+
+  // 2c. Animation Loop: one frame in flight at a time, throttled to `fps`
+  useEffect(() => {
+    if (!wantsMotion || !inView || !pageVisible) return; // Paused: keep the last frame
+    if (dimensions.width === 0 || dimensions.height === 0) return;
+
+    let timer = 0;
+    let stopped = false;
+    const interval = 1000 / Math.max(1, fps);
+
+    const tick = () => {
+      const started = performance.now();
+      requestGlassMaps(filterId, {
+        ...surfaceOptions(dimensions.width, dimensions.height),
+        time: (started / 1000) * speed,
+      }).then((maps) => {
+        if (stopped) return releaseGlassMaps(maps);
+        const previous = frameRef.current;
+        frameRef.current = maps;
+        setMaps(maps);
+        releaseGlassMaps(previous);
+        releaseGlassMap(filterId); // Static map no longer on screen
+        timer = window.setTimeout(tick, Math.max(0, interval - (performance.now() - started)));
+      }).catch(() => {
+        // Superseded by a newer request (failures resolve blank)
+      });
+    };
+    tick();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      cancelGlassMaps(filterId);
+    };
+  }, [wantsMotion, inView, pageVisible, fps, speed, filterId, dimensions.width, dimensions.height, radius, bezel, shape, profile, squircleExponent, squircleMode, warp, seed, ior, thickness, encoding]);
 
   // 3. SVG Filter Definition
   const filterSvg = useMemo(() => {
     if (!dimensions.width || !dimensions.height) return null;
+    const map = encoding === 'companded' ? 'decoded' : 'map';
+    const body = tint ? 'tinted' : 'disp';
 
     return (
       <svg 
@@ -100,20 +311,73 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
               preserveAspectRatio="none"
             />
 
-            {/* Displacement Pass using Red (X) and Green (Y) channels */}
-            <feDisplacementMap
-              in="SourceGraphic"
-              in2="map"
-              scale={intensity}
-              xChannelSelector="R"
-              yChannelSelector="G"
+            {/* Companded maps: undo the square-root curve on the displacement channels */}
+            {encoding === 'companded' && (
+              <feComponentTransfer in="map" result="decoded">
+                {[channels.displaceX, channels.displaceY].map((channel) => {
+                  const FeFunc = FE_FUNC[channel];
+                  return <FeFunc key={channel} type="table" tableValues={expandTableValues()} />;
+                })}
+              </feComponentTransfer>
+            )}
+
+            {/* Displacement Pass using the map's X and Y channels (split per colour with dispersion) */}
+            {/* Physical maps carry their own scale; artistic ones use `intensity` */}
+            <DispersiveDisplacement
+              map={map}
               result="disp"
+              scale={mapScale ?? intensity}
+              channels={channels}
+              dispersion={dispersion}
             />
+
+            {/* Absorption: thin rim stays clear, the plateau takes the full tint */}
+            {tint && (
+              <GlassTintLayer in="disp" map={map} result="tinted" channels={channels} tint={resolveTint(tint, tintDensity)} />
+            )}
+
+            {/* Environment reflection, strongest at the rim (reflectance from `ior` when set) */}
+            {reflection > 0 && (
+              <GlassReflection
+                in={body}
+                map={map}
+                result="reflected"
+                width={dimensions.width}
+                height={dimensions.height}
+                channels={channels}
+                strength={reflection}
+                f0={fresnelF0(ior)}
+                environment={environment}
+              />
+            )}
+
+            {/* Fresnel rim light along the generated bezel */}
+            {highlight > 0 && (
+              <GlassRim
+                in={reflection > 0 ? 'reflected' : body}
+                map={map}
+                result="rim"
+                channels={channels}
+                strength={highlight}
+                color={rimColor}
+              />
+            )}
           </filter>
         </defs>
       </svg>
     );
-  }, [filterId, mapUrl, intensity, dimensions.width, dimensions.height]);
+  }, [filterId, mapUrl, mapScale, channels, intensity, encoding, dispersion, tint, tintDensity, reflection, environment, highlight, rimColor, ior, dimensions.width, dimensions.height]);
+
+  // 4. Renderer: SVG backdrop where supported, else WebGL over `backdropSource`, else blur
+  const { renderer, backdrop, fail } = useGlassRenderer(
+    'GlassBubble', rendererPreference, backdropSource, onRenderer
+  );
+  const svgFilter = renderer === 'svg-backdrop' && !!mapUrl;
+
+  // The CSS mask below reads coverage from alpha
+  useEffect(() => {
+    if (maps) checkChannelLayout('GlassBubble', maps.channels, { mask: 'A' });
+  }, [maps]);
 
   const glassStyle: React.CSSProperties = {
     position: 'absolute',
@@ -122,16 +386,17 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
     borderRadius: shape === 'rect' ? `${radius}px` : '0px',
     
     // BACKDROP FILTER STACK
-    backdropFilter: mapUrl ? `url(#${filterId}) blur(${blur}px)` : `blur(${blur}px)`,
-    WebkitBackdropFilter: mapUrl ? `url(#${filterId}) blur(${blur}px)` : `blur(${blur}px)`,
+    // The WebGL renderer draws its own blurred, refracted backdrop instead
+    backdropFilter: renderer === 'webgl' ? 'none' : svgFilter ? `url(#${filterId}) blur(${blur}px)` : `blur(${blur}px)`,
+    WebkitBackdropFilter: renderer === 'webgl' ? 'none' : svgFilter ? `url(#${filterId}) blur(${blur}px)` : `blur(${blur}px)`,
     
     willChange: 'backdrop-filter',
     
     // SURFACE
     backgroundColor: debug ? 'rgba(0,0,0,0.1)' : 'rgba(255, 255, 255, 0.02)',
+    // The rim highlight comes from the filter (GlassRim) so it follows every shape
     boxShadow: shape === 'rect' ? `
       inset 0 0 0 1px rgba(255, 255, 255, 0.1),
-      inset 0 1px 0 0 rgba(255, 255, 255, 0.2),
       0 20px 40px -10px rgba(0, 0, 0, 0.4)
     ` : 'none', // Squircles rely on the map's alpha for shape
     
@@ -143,48 +408,42 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
     WebkitMaskSize: '100% 100%',
 
     transition: 'all 0.1s linear', 
-    zIndex: 2,
+    zIndex: -1,
+    pointerEvents: 'none',
     overflow: 'hidden',
   };
 
+  const Container = motion[as];
+
   return (
-    <motion.div 
-      ref={containerRef} 
-      style={{ position: 'relative', width: '100%', height: '100%' }}
-      initial={{ opacity: 0, scale: 0.95 }}
+    <Container
+      {...rest}
+      ref={setRef}
+      className={className}
+      // Isolated so the glass can sit at z-index -1: above the bubble's background, below its children
+      style={{ position: 'relative', width: '100%', height: '100%', isolation: 'isolate', ...style }}
+      initial={entrance ? { opacity: 0, scale: 0.95 } : false}
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.8, ease: "easeOut" }}
     >
-      {mapUrl && filterSvg}
-
-      <div style={glassStyle} />
-
-      {/* Content Label */}
-      <div style={{
-        position: 'absolute',
-        inset: 0,
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        pointerEvents: 'none',
-        zIndex: 3
-      }}>
-         <motion.span 
-           style={{ 
-             ...Theme.Type.Expressive.Display.M, 
-             fontSize: 'clamp(2rem, 6vw, 4rem)',
-             color: 'rgba(255,255,255,0.9)',
-             textShadow: '0 4px 20px rgba(0,0,0,0.3)',
-             mixBlendMode: 'overlay',
-             letterSpacing: '0.05em'
-           }}
-           animate={{ opacity: [0.7, 1, 0.7] }}
-           transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
-         >
-           LIQUID
-         </motion.span>
+      {svgFilter && filterSvg}
+
+      <div style={glassStyle} data-glass-renderer={renderer}>
+        {/* WebGL fallback: refraction and blur only, masked like the SVG path */}
+        {renderer === 'webgl' && backdrop && mapUrl && (
+          <GlassFallbackCanvas
+            backdrop={backdrop}
+            mapUrl={mapUrl}
+            channels={channels}
+            scale={mapScale ?? intensity}
+            blur={blur}
+            onError={fail}
+          />
+        )}
       </div>
 
+      {children}
+
       {debug && mapUrl && (
         <div style={{
           position: 'absolute',
@@ -195,8 +454,27 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
           opacity: 0.9,
           pointerEvents: 'none',
           border: '2px solid #F59E0B',
-        }} />
+        }}>
+          {/* Quantisation readout: channel error times the scale = pixels of displacement error */}
+          {mapError && (
+            <div style={{
+              position: 'absolute',
+              left: Theme.Space.S,
+              bottom: Theme.Space.S,
+              padding: `${Theme.Space.XS}px ${Theme.Space.S}px`,
+              borderRadius: Theme.Radius.S,
+              background: 'rgba(0, 0, 0, 0.7)',
+              color: '#F59E0B',
+              ...Theme.Type.Readable.Code.M,
+              fontSize: '11px',
+            }}>
+              {renderer} · {encoding} · max {(mapError.max * (mapScale ?? intensity)).toFixed(2)}px · rms {(mapError.rms * (mapScale ?? intensity)).toFixed(2)}px
+            </div>
+          )}
+        </div>
       )}
-    </motion.div>
+    </Container>
   );
-};
\ No newline at end of file
+});
+
+GlassBubble.displayName = 'GlassBubble';
\ No newline at end of file
@@ -1,26 +1,42 @@
 import React, { useRef, useState, useEffect, useId } from 'react';
-import { generateGlassMaps } from '../../utils/generateGlassMaps';
+import { GlassMaps, acquireGlassMap, releaseGlassMap } from '../../utils/glassPipeline';
 import { LiquidGlassFilter } from '../Core/LiquidGlassFilter';
+import { GlassRenderer } from '../../utils/glassSupport';
+import { GlassDispersion } from '../../utils/dispersion';
+import { GlassPresetName } from '../../utils/glassPresets';
+import { useGlassSettings } from '../Core/GlassProvider';
 
-interface LiquidGlassProps {
+export interface LiquidGlassProps {
   children: React.ReactNode;
   radius?: number;
   bezelWidth?: number;
   intensity?: number;
+  /** Chromatic dispersion: a red/blue scale offset, or { delta, abbe } */
+  dispersion?: number | GlassDispersion;
+  /** Named look; props set here still win. Unset props also fall back to the nearest GlassProvider */
+  preset?: GlassPresetName;
   className?: string;
   style?: React.CSSProperties;
+  /** Always 'svg-filter': this filters its own content, which every browser supports */
+  onRenderer?: (renderer: GlassRenderer) => void;
 }
 
-export const LiquidGlass: React.FC<LiquidGlassProps> = ({
-  children,
-  radius = 24,
-  bezelWidth = 30,
-  intensity = 30,
-  className = '',
-  style = {},
-}) => {
+export const LiquidGlass: React.FC<LiquidGlassProps> = (props) => {
+  const glass = useGlassSettings(props.preset);
+  const {
+    children,
+    radius = glass.radius ?? 24,
+    bezelWidth = glass.bezel ?? 30,
+    intensity = glass.refraction ?? 30,
+    dispersion = glass.dispersion,
+    className = '',
+    style = {},
+    onRenderer,
+  } = props;
+
   const containerRef = useRef<HTMLDivElement>(null);
-  const [mapUrl, setMapUrl] = useState<string>('');
+  const [maps, setMaps] = useState<GlassMaps | null>(null);
+  const mapUrl = maps?.surfaceUrl ?? '';
   
   // Ensure ID is safe for CSS selectors
   const rawId = useId();
@@ -37,16 +53,16 @@ export const LiquidGlass: React.FC<LiquidGlassProps> = ({
       
       if (offsetWidth === 0 || offsetHeight === 0) return;
 
-      const url = generateGlassMaps(
-        offsetWidth,
-        offsetHeight,
+      acquireGlassMap(filterId, {
+        backend: 'svg-gradient',
+        width: offsetWidth,
+        height: offsetHeight,
         radius,
-        bezelWidth,
-        10, // Default blur
-        'convex'
-      );
-
-      setMapUrl(url);
+        bezel: bezelWidth,
+        blur: 10,
+      }).then(setMaps).catch(() => {
+        // Superseded by a newer request (failures resolve blank)
+      });
     };
 
     const ro = new ResizeObserver(() => {
@@ -61,7 +77,13 @@ export const LiquidGlass: React.FC<LiquidGlassProps> = ({
       ro.disconnect();
       clearTimeout(resizeTimeout);
     };
-  }, [bezelWidth, radius]);
+  }, [filterId, bezelWidth, radius]);
+
+  useEffect(() => () => releaseGlassMap(filterId), [filterId]);
+
+  useEffect(() => {
+    onRenderer?.('svg-filter');
+  }, []);
 
   const containerStyles: React.CSSProperties = {
     position: 'relative',
@@ -77,12 +99,14 @@ export const LiquidGlass: React.FC<LiquidGlassProps> = ({
   };
 
   return (
-    <div ref={containerRef} className={className} style={containerStyles}>
+    <div ref={containerRef} className={className} style={containerStyles} data-glass-renderer="svg-filter">
       {mapUrl && (
         <LiquidGlassFilter
           id={filterId}
           mapUrl={mapUrl}
+          channels={maps?.channels}
           scale={intensity}
+          dispersion={dispersion}
         />
       )}
       <div style={contentStyles}>
@@ -0,0 +1,47 @@
+/**
+ * Glass Components
+ * ----------------
+ * The published surface: import components and their prop types from here
+ * rather than from individual files.
+ */
+
+export { Glass } from './Glass';
+export type { GlassRootProps, GlassSurfaceProps, GlassContentProps } from './Glass';
+
+export { GlassBubble } from './GlassBubble';
+export type { GlassBubbleProps, GlassAnimation } from './GlassBubble';
+
+export { LiquidGlass } from './LiquidGlass';
+export type { LiquidGlassProps } from './LiquidGlass';
+
+export { GlassProvider, useGlassSettings } from '../Core/GlassProvider';
+export { GlassPresets, GlassQualityTiers, detectGlassQuality } from '../../utils/glassPresets';
+export type { GlassSettings, GlassPresetName, GlassQuality } from '../../utils/glassPresets';
+
+export {
+  GlassMaterialPresets, createGlassMaterial, serializeGlassMaterial, deserializeGlassMaterial,
+  isGlassMaterialError, glassMaterialProps, GLASS_MATERIAL_VERSION,
+} from '../../utils/glassMaterial';
+export type { GlassMaterial, GlassMaterialPresetName, GlassMaterialError } from '../../utils/glassMaterial';
+
+// CPU reference of the glass filter, for PNG snapshots and headless tests
+export { computeGlassComposite, renderGlassPng, loadGlassPixels } from '../../utils/glassCompositor';
+export type { GlassPixels, GlassCompositeOptions, GlassCompositeLighting } from '../../utils/glassCompositor';
+
+export { Slot } from '../Core/Slot';
+export type { GlassBackdropSource } from '../Core/GlassFallbackCanvas';
+
+// Value types used by the props above
+export type {
+  GlassShape,
+  GlassShapeProfile,
+  GlassProfileCurve,
+  GlassSquircleMode,
+  GlassPathShape,
+  GlassIorPreset,
+  GlassMapEncoding,
+} from '../../utils/glassPipeline';
+export type { GlassDispersion } from '../../utils/dispersion';
+export type { GlassEnvironmentMap, GlassSky } from '../../utils/glassReflection';
+export type { GlassTintPreset } from '../../utils/glassTint';
+export type { GlassRenderer, GlassRendererPreference } from '../../utils/glassSupport';
@@ -1,8 +1,23 @@
 
 import React from 'react';
 import { Theme } from '../../utils/theme';
+import { GlassSquircleMode } from '../../utils/glassPipeline';
+
+interface CodeIOProps {
+  intensity?: number;
+  squircleExponent?: number;
+  squircleMode?: GlassSquircleMode;
+  radius?: number;
+}
+
+export const CodeIO: React.FC<CodeIOProps> = ({
+  intensity = 30,
+  squircleExponent = 4,
+  squircleMode = 'full',
+  radius = 0,
+}) => {
+  const n = Number(squircleExponent.toFixed(2));
 
-export const CodeIO: React.FC = () => {
   const styles = {
     wrapper: {
       display: 'flex',
@@ -47,7 +62,7 @@ export const CodeIO: React.FC = () => {
   "feDisplacementMap": {
     "in": "SourceGraphic",
     "in2": "displacementMap",
-    "scale": `}<span style={styles.value}>30</span>{`,
+    "scale": `}<span style={styles.value}>{intensity}</span>{`,
     "xChannelSelector": "R",
     "yChannelSelector": "G"
   }
@@ -60,9 +75,9 @@ export const CodeIO: React.FC = () => {
         <span style={styles.label}>COLOR MAPPING LOGIC</span>
         <div style={styles.block}>
           <span style={styles.comment}>// How pixels map to displacement:</span>{'\n'}
-          <span style={styles.comment}>// 0   (0x00) -> Negative Shift (-Scale/2)</span>{'\n'}
-          <span style={styles.comment}>// 127 (0x7F) -> Zero Displacement (Neutral)</span>{'\n'}
-          <span style={styles.comment}>// 255 (0xFF) -> Positive Shift (+Scale/2)</span>{'\n'}
+          <span style={styles.comment}>// 0   (0x00) -&gt; Negative Shift (-Scale/2)</span>{'\n'}
+          <span style={styles.comment}>// 127 (0x7F) -&gt; Zero Displacement (Neutral)</span>{'\n'}
+          <span style={styles.comment}>// 255 (0xFF) -&gt; Positive Shift (+Scale/2)</span>{'\n'}
           {'\n'}
           <span style={styles.keyword}>function</span> <span style={styles.prop}>mapColorToOffset</span>(color) {'{'}{'\n'}
           {'  '}<span style={styles.keyword}>return</span> ((color / 255) - 0.5) * scale;{'\n'}
@@ -72,15 +87,26 @@ export const CodeIO: React.FC = () => {
 
       {/* SURFACE FUNCTION */}
       <div style={styles.section}>
-        <span style={styles.label}>SURFACE FUNCTION (Squircle)</span>
-        <div style={styles.block}>
-          <span style={styles.comment}>// Superellipse SDF approximation</span>{'\n'}
-          <span style={styles.keyword}>const</span> u = (x - cx) / rx;{'\n'}
-          <span style={styles.keyword}>const</span> v = (y - cy) / ry;{'\n'}
-          <span style={styles.comment}>// Implicit Surface Equation (n=4)</span>{'\n'}
-          <span style={styles.keyword}>const</span> val = <span style={styles.prop}>pow</span>(<span style={styles.prop}>abs</span>(u), 4) + <span style={styles.prop}>pow</span>(<span style={styles.prop}>abs</span>(v), 4);{'\n'}
-          <span style={styles.keyword}>const</span> height = val &gt; 1 ? 0 : 1; 
-        </div>
+        <span style={styles.label}>SURFACE FUNCTION (Squircle, {squircleMode.toUpperCase()})</span>
+        {squircleMode === 'full' ? (
+          <div style={styles.block}>
+            <span style={styles.comment}>// Superellipse SDF approximation</span>{'\n'}
+            <span style={styles.keyword}>const</span> u = (x - cx) / rx;{'\n'}
+            <span style={styles.keyword}>const</span> v = (y - cy) / ry;{'\n'}
+            <span style={styles.comment}>// Implicit Surface Equation (n=<span style={styles.value}>{n}</span>)</span>{'\n'}
+            <span style={styles.keyword}>const</span> val = <span style={styles.prop}>pow</span>(<span style={styles.prop}>abs</span>(u), <span style={styles.value}>{n}</span>) + <span style={styles.prop}>pow</span>(<span style={styles.prop}>abs</span>(v), <span style={styles.value}>{n}</span>);{'\n'}
+            <span style={styles.keyword}>const</span> dist = (<span style={styles.prop}>pow</span>(val, 1 / <span style={styles.value}>{n}</span>) - 1) * <span style={styles.prop}>min</span>(rx, ry);
+          </div>
+        ) : (
+          <div style={styles.block}>
+            <span style={styles.comment}>// Rounded box with superellipse corners</span>{'\n'}
+            <span style={styles.keyword}>const</span> dx = <span style={styles.prop}>abs</span>(x - cx) - (rx - <span style={styles.value}>{radius}</span>);{'\n'}
+            <span style={styles.keyword}>const</span> dy = <span style={styles.prop}>abs</span>(y - cy) - (ry - <span style={styles.value}>{radius}</span>);{'\n'}
+            <span style={styles.comment}>// L{n} norm instead of L2 in the corner (n=<span style={styles.value}>{n}</span>)</span>{'\n'}
+            <span style={styles.keyword}>const</span> outer = <span style={styles.prop}>pow</span>(<span style={styles.prop}>pow</span>(<span style={styles.prop}>max</span>(dx, 0), <span style={styles.value}>{n}</span>) + <span style={styles.prop}>pow</span>(<span style={styles.prop}>max</span>(dy, 0), <span style={styles.value}>{n}</span>), 1 / <span style={styles.value}>{n}</span>);{'\n'}
+            <span style={styles.keyword}>const</span> dist = outer + <span style={styles.prop}>min</span>(<span style={styles.prop}>max</span>(dx, dy), 0) - <span style={styles.value}>{radius}</span>;
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { Theme } from '../../utils/theme';
+import { Slider } from '../Core/Controls';
+
+export type BezierPoints = [number, number, number, number];
+
+interface CurveEditorProps {
+  value: BezierPoints;
+  onChange: (points: BezierPoints) => void;
+}
+
+// Plot area inside the SVG viewBox (padding leaves room for the handles)
+const SIZE = 200;
+const PAD = 16;
+const PLOT = SIZE - PAD * 2;
+
+const toX = (t: number) => PAD + t * PLOT;
+const toY = (h: number) => PAD + (1 - h) * PLOT;
+const clamp01 = (v: number) => Math.max(0, Math.min(1, Math.round(v * 100) / 100));
+
+export const CurveEditor: React.FC<CurveEditorProps> = ({ value, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<0 | 1 | null>(null);
+  const [x1, y1, x2, y2] = value;
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const t = clamp01(((e.clientX - rect.left) / rect.width * SIZE - PAD) / PLOT);
+    const h = clamp01(1 - ((e.clientY - rect.top) / rect.height * SIZE - PAD) / PLOT);
+    onChange(dragging === 0 ? [t, h, x2, y2] : [x1, y1, t, h]);
+  };
+
+  const stopDragging = () => setDragging(null);
+
+  const curve = `M ${toX(0)},${toY(0)} C ${toX(x1)},${toY(y1)} ${toX(x2)},${toY(y2)} ${toX(1)},${toY(1)}`;
+  const handles = [
+    { anchor: [0, 0], point: [x1, y1] },
+    { anchor: [1, 1], point: [x2, y2] },
+  ];
+
+  const update = (index: number, v: number) => {
+    const next = [...value] as BezierPoints;
+    next[index] = v;
+    onChange(next);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.M }}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={stopDragging}
+        onPointerLeave={stopDragging}
+        style={{
+          width: '100%',
+          aspectRatio: '1',
+          background: Theme.Color.Base.Surface[1],
+          borderRadius: Theme.Radius.S,
+          touchAction: 'none',
+          cursor: dragging === null ? 'default' : 'grabbing',
+        }}
+      >
+        {/* Grid */}
+        {[0.25, 0.5, 0.75].map(g => (
+          <g key={g} stroke={Theme.Color.Base.Surface[3]} strokeWidth={1}>
+            <line x1={toX(g)} y1={toY(0)} x2={toX(g)} y2={toY(1)} />
+            <line x1={toX(0)} y1={toY(g)} x2={toX(1)} y2={toY(g)} />
+          </g>
+        ))}
+        <rect x={PAD} y={PAD} width={PLOT} height={PLOT} fill="none" stroke={Theme.Color.Base.Content[3]} strokeWidth={1} />
+
+        {/* Cross-section: the filled area is the glass, edge on the left, plateau on the right */}
+        <path d={`${curve} L ${toX(1)},${toY(0)} Z`} fill={Theme.Color.Effect.Glass.SurfaceHighlight} />
+        <path d={curve} fill="none" stroke={Theme.Color.Base.Content[1]} strokeWidth={2} />
+
+        {handles.map(({ anchor, point }, i) => (
+          <g key={i}>
+            <line
+              x1={toX(anchor[0])} y1={toY(anchor[1])}
+              x2={toX(point[0])} y2={toY(point[1])}
+              stroke={Theme.Color.Base.Content[2]} strokeWidth={1} strokeDasharray="3 3"
+            />
+            <circle
+              cx={toX(point[0])} cy={toY(point[1])} r={6}
+              fill={Theme.Color.Base.Surface[2]}
+              stroke={Theme.Color.Fixed.Info}
+              strokeWidth={2}
+              style={{ cursor: 'grab' }}
+              onPointerDown={(e) => {
+                svgRef.current?.setPointerCapture(e.pointerId);
+                setDragging(i as 0 | 1);
+              }}
+            />
+          </g>
+        ))}
+
+        <text x={PAD} y={SIZE - 4} fill={Theme.Color.Base.Content[3]} fontSize={9} fontFamily="monospace">EDGE</text>
+        <text x={SIZE - PAD} y={SIZE - 4} fill={Theme.Color.Base.Content[3]} fontSize={9} fontFamily="monospace" textAnchor="end">PLATEAU</text>
+      </svg>
+
+      <div style={{ ...Theme.Type.Readable.Code.M, color: Theme.Color.Base.Content[2], textAlign: 'center' }}>
+        cubic-bezier({value.join(', ')})
+      </div>
+
+      <Slider label="X1" value={x1} min={0} max={1} step={0.01} onChange={(v) => update(0, v)} />
+      <Slider label="Y1" value={y1} min={0} max={1} step={0.01} onChange={(v) => update(1, v)} />
+      <Slider label="X2" value={x2} min={0} max={1} step={0.01} onChange={(v) => update(2, v)} />
+      <Slider label="Y2" value={y2} min={0} max={1} step={0.01} onChange={(v) => update(3, v)} />
+    </div>
+  );
+};
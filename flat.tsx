@@ -1,5 +1,15 @@
 import React, { useState, useEffect, useRef, useId, useMemo } from 'react';
 import { motion, AnimatePresence, useDragControls } from 'framer-motion';
+import {
+  GlassMaps, GlassProfileCurve, GlassChannelLayout, GlassFrostPattern, GlassFrostMask,
+  acquireGlassMap, releaseGlassMap, displacementSelectors,
+} from './utils/glassPipeline';
+import { GlassEnvironmentMap, fresnelF0 } from './utils/glassReflection';
+import { GlassReflection } from './components/Core/GlassReflection';
+import { GlassRim } from './components/Core/GlassRim';
+import { GlassFrost } from './components/Core/GlassFrost';
+import { GlassFallbackCanvas, GlassBackdropSource, useGlassRenderer } from './components/Core/GlassFallbackCanvas';
+import { GlassRenderer, GlassRendererPreference } from './utils/glassSupport';
 
 // -----------------------------------------------------------------------------
 // TIER 2: DESIGN SYSTEM (THEME)
@@ -43,105 +53,11 @@ const Theme = {
 };
 
 // -----------------------------------------------------------------------------
-// UTILS: GLASS GENERATOR (RECT ONLY)
+// UTILS: GLASS MAP (RECT ONLY)
 // -----------------------------------------------------------------------------
 
-interface GlassMaps {
-  surfaceUrl: string;
-}
-
-function generateGlassMaps(
-  width: number,
-  height: number,
-  radius: number,
-  bezel: number,
-): GlassMaps {
-  
-  if (width <= 0 || height <= 0) return { surfaceUrl: '' };
-
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) return { surfaceUrl: '' };
-
-  const size = width * height;
-  const heightMap = new Float32Array(size);
-
-  const cx = width / 2;
-  const cy = height / 2;
-  
-  // Safe radius clamping
-  const r = Math.min(radius, Math.min(width, height) / 2);
-  const bx = (width / 2) - r;
-  const by = (height / 2) - r;
-
-  // --- STAGE 1: GEOMETRY (Rounded Box SDF) ---
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = y * width + x;
-      
-      const dx = Math.abs(x - cx) - bx;
-      const dy = Math.abs(y - cy) - by;
-      const dOuter = Math.sqrt(Math.max(dx, 0) ** 2 + Math.max(dy, 0) ** 2);
-      const dInner = Math.min(Math.max(dx, dy), 0);
-      const dist = dOuter + dInner - r; 
-
-      // Height Profile (0 to 1)
-      let h = 0;
-      if (dist < -bezel) h = 1.0;
-      else if (dist > 1.0) h = 0.0;
-      else {
-        const t = Math.max(0, Math.min(1, -dist / bezel));
-        // Smoothstep-like ease for glass slope
-        h = t * t * (3 - 2 * t); 
-      }
-
-      heightMap[idx] = h;
-    }
-  }
-
-  // --- STAGE 2: NORMALS & PACKING ---
-  const imgData = ctx.createImageData(width, height);
-  const data = imgData.data;
-  const steepness = 8.0; // Strong normals for glass
-
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      
-      const x0 = Math.max(0, x - 1);
-      const x1 = Math.min(width - 1, x + 1);
-      const y0 = Math.max(0, y - 1);
-      const y1 = Math.min(height - 1, y + 1);
-      
-      const hVal = heightMap[y * width + x];
-      
-      const dx = (heightMap[y * width + x0] - heightMap[y * width + x1]) * steepness;
-      const dy = (heightMap[y0 * width + x] - heightMap[y1 * width + x]) * steepness;
-      
-      // Normalize
-      const len = Math.sqrt(dx * dx + dy * dy + 1.0);
-      const nx = dx / len;
-      const ny = dy / len;
-
-      // Pack Data:
-      // R: Normal X (0..255). 128 is 0.
-      // G: Normal Y (0..255). 128 is 0.
-      // B: Unused (Height)
-      // A: 255 (Full Opacity). CRITICAL FIX: Do not use transparency.
-      
-      data[i] = (nx * 0.5 + 0.5) * 255;
-      data[i + 1] = (ny * 0.5 + 0.5) * 255;
-      data[i + 2] = hVal * 255; 
-      data[i + 3] = 255; // ALWAYS OPAQUE
-    }
-  }
-
-  ctx.putImageData(imgData, 0, 0);
-  return { surfaceUrl: canvas.toDataURL('image/png') };
-}
+// Smoothstep rim, strong normals, no erosion; the bubble clips its own corners
+const smoothstep: GlassProfileCurve = (t) => t * t * (3 - 2 * t);
 
 // -----------------------------------------------------------------------------
 // COMPONENTS: SECTIONS
@@ -211,6 +127,29 @@ const Slider: React.FC<{ label: string; value: number; min: number; max: number;
   </div>
 );
 
+const Segmented: React.FC<{ label: string; options: string[]; value: string; onChange: (v: string) => void }> = ({ label, options, value, onChange }) => (
+  <div style={{ display: 'flex', flexDirection: 'column', gap: Theme.Space.XS }}>
+    <span style={{ ...Theme.Type.Readable.Label.S, color: Theme.Color.Base.Content[2] }}>{label}</span>
+    <div style={{ display: 'flex', gap: 2, padding: 3, background: Theme.Color.Base.Surface[3], borderRadius: Theme.Radius.S }}>
+      {options.map(opt => (
+        <button
+          key={opt}
+          onClick={() => onChange(opt)}
+          style={{
+            flex: 1, border: 'none', padding: '6px 0', cursor: 'pointer', borderRadius: 6,
+            ...Theme.Type.Readable.Label.XS,
+            background: value === opt ? Theme.Color.Base.Surface[2] : 'transparent',
+            color: value === opt ? Theme.Color.Base.Content[1] : Theme.Color.Base.Content[2],
+            boxShadow: value === opt ? '0 1px 3px rgba(0,0,0,0.1)' : 'none',
+          }}
+        >
+          {opt}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
 // -----------------------------------------------------------------------------
 // COMPONENT: LIQUID GLASS FILTER (SVG DEF)
 // -----------------------------------------------------------------------------
@@ -218,21 +157,40 @@ const Slider: React.FC<{ label: string; value: number; min: number; max: number;
 interface LiquidGlassFilterProps {
   id: string;
   mapUrl: string;
+  channels: GlassChannelLayout;
   width: number;
   height: number;
   intensity: number;
   chromaticDelta: number;
+  reflection: number;
+  environment?: GlassEnvironmentMap;
+  highlight: number;
+  rimColor: string;
+  frost: number;
+  frostMaps: GlassMaps | null;
+  frostEtch?: string;
 }
 
 const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = React.memo(({
   id,
   mapUrl,
+  channels,
   width,
   height,
   intensity,
   chromaticDelta,
+  reflection,
+  environment,
+  highlight,
+  rimColor,
+  frost,
+  frostMaps,
+  frostEtch,
 }) => {
   if (!width || !height) return null;
+  const selectors = displacementSelectors(channels);
+  const frosted = frost > 0 && !!frostMaps?.surfaceUrl;
+  const body = frosted ? 'frosted' : 'RGB';
 
   return (
     <svg style={{ position: 'absolute', width: 0, height: 0, pointerEvents: 'none' }} aria-hidden="true">
@@ -266,8 +224,7 @@ const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = React.memo(({
             in="SourceGraphic" 
             in2="map" 
             scale={intensity + chromaticDelta} 
-            xChannelSelector="R" 
-            yChannelSelector="G" 
+            {...selectors}
             result="dispR"
           />
 
@@ -276,8 +233,7 @@ const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = React.memo(({
             in="SourceGraphic" 
             in2="map" 
             scale={intensity} 
-            xChannelSelector="R" 
-            yChannelSelector="G" 
+            {...selectors}
             result="dispG"
           />
 
@@ -286,8 +242,7 @@ const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = React.memo(({
             in="SourceGraphic" 
             in2="map" 
             scale={intensity - chromaticDelta} 
-            xChannelSelector="R" 
-            yChannelSelector="G" 
+            {...selectors}
             result="dispB"
           />
 
@@ -321,6 +276,47 @@ const LiquidGlassFilter: React.FC<LiquidGlassFilterProps> = React.memo(({
           <feComposite operator="arithmetic" k2="1" k3="1" in="R" in2="G" result="RG" />
           <feComposite operator="arithmetic" k2="1" k3="1" in="RG" in2="B" result="RGB" />
 
+          {/* FROST: scatter + blur where the frost mask (and etch image) says so */}
+          {frosted && (
+            <GlassFrost
+              in="RGB"
+              result="frosted"
+              frostUrl={frostMaps.surfaceUrl}
+              channels={frostMaps.channels}
+              width={width}
+              height={height}
+              amount={frost}
+              etch={frostEtch}
+            />
+          )}
+
+          {/* REFLECTION: environment along the normals, Fresnel-weighted to the rim */}
+          {reflection > 0 && (
+            <GlassReflection
+              in={body}
+              map="map"
+              result="reflected"
+              width={width}
+              height={height}
+              channels={channels}
+              strength={reflection}
+              f0={fresnelF0()}
+              environment={environment}
+            />
+          )}
+
+          {/* RIM: Fresnel edge light from the height channel, follows the real bezel */}
+          {highlight > 0 && (
+            <GlassRim
+              in={reflection > 0 ? 'reflected' : body}
+              map="map"
+              result="rim"
+              channels={channels}
+              strength={highlight * 0.9}
+              color={rimColor}
+            />
+          )}
+
         </filter>
       </defs>
     </svg>
@@ -336,10 +332,28 @@ interface GlassBubbleProps {
   bezel?: number;
   intensity?: number;
   chromaticDelta?: number;
+  /** Frost strength: scatter and blur in px */
   frost?: number;
+  /** 'grain' (soft, acid-etched) or 'sandblast' (sharp, pitted) */
+  frostPattern?: GlassFrostPattern;
+  /** Where the glass is frosted: 'uniform', 'edge', 'gradient' or a configured object (memoise objects) */
+  frostMask?: GlassFrostMask;
+  /** Grain feature size in px */
+  frostGrain?: number;
+  /** Etched areas from an image or SVG URL; its alpha multiplies `frostMask` */
+  frostEtch?: string;
   highlight?: number;
   dropShadow?: number;
   volumeShadow?: number;
+  reflection?: number;
+  environment?: GlassEnvironmentMap;
+  /** Rim light colour */
+  rimColor?: string;
+  /** 'auto' picks SVG backdrop (Chromium), then WebGL (needs `backdropSource`), then plain blur */
+  renderer?: GlassRendererPreference;
+  /** Element behind the glass for the WebGL fallback */
+  backdropSource?: GlassBackdropSource;
+  onRenderer?: (renderer: GlassRenderer) => void;
   debug?: boolean;
 }
 
@@ -349,16 +363,29 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
   intensity = 30,
   chromaticDelta = 0,
   frost = 0,
+  frostPattern = 'grain',
+  frostMask = 'uniform',
+  frostGrain = 2,
+  frostEtch,
   highlight = 0.5,
   dropShadow = 0.5,
   volumeShadow = 0.5,
+  reflection = 0,
+  environment,
+  rimColor = '#ffffff',
+  renderer: rendererPreference = 'auto',
+  backdropSource,
+  onRenderer,
   debug = false,
-}) => {
+}: GlassBubbleProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [mapUrl, setMapUrl] = useState<string>('');
+  const [maps, setMaps] = useState<GlassMaps | null>(null);
+  const [frostMaps, setFrostMaps] = useState<GlassMaps | null>(null);
+  const mapUrl = maps?.surfaceUrl ?? '';
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const rawId = useId();
   const filterId = `glass-refract-${rawId.replace(/[:]/g, '')}`;
+  const frostOwner = `${filterId}-frost`;
 
   useEffect(() => {
     const el = containerRef.current;
@@ -378,16 +405,58 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
   useEffect(() => {
     if (dimensions.width === 0 || dimensions.height === 0) return;
     const timeout = setTimeout(() => {
-      const { surfaceUrl } = generateGlassMaps(
-        dimensions.width,
-        dimensions.height,
+      acquireGlassMap(filterId, {
+        width: dimensions.width,
+        height: dimensions.height,
+        radius,
+        bezel,
+        profile: smoothstep,
+        tension: 0,
+        steepness: 8,
+        opaque: true,
+      }).then(setMaps).catch(() => {
+        // Superseded by a newer request (failures resolve blank)
+      });
+    }, 50);
+    return () => clearTimeout(timeout);
+  }, [filterId, dimensions, radius, bezel]);
+
+  useEffect(() => () => releaseGlassMap(filterId), [filterId]);
+
+  // Frost grain + mask, only while frosted
+  const frosted = frost > 0;
+  useEffect(() => {
+    if (!frosted) {
+      releaseGlassMap(frostOwner);
+      setFrostMaps(null);
+      return;
+    }
+    if (dimensions.width === 0 || dimensions.height === 0) return;
+    const timeout = setTimeout(() => {
+      acquireGlassMap(frostOwner, {
+        backend: 'frost',
+        width: dimensions.width,
+        height: dimensions.height,
+        pattern: frostPattern,
+        grainSize: frostGrain,
+        mask: frostMask,
         radius,
-        bezel
-      );
-      setMapUrl(surfaceUrl);
+      }).then(setFrostMaps).catch(() => {
+        // Superseded by a newer request (failures resolve blank)
+      });
     }, 50);
     return () => clearTimeout(timeout);
-  }, [dimensions, radius, bezel]);
+  }, [frostOwner, frosted, dimensions, frostPattern, frostGrain, frostMask, radius]);
+
+  useEffect(() => () => releaseGlassMap(frostOwner), [frostOwner]);
+
+  // The filter handles frost itself once the grain map is ready
+  const cssBlur = frostMaps?.surfaceUrl ? 0 : frost;
+
+  const { renderer, backdrop, fail } = useGlassRenderer(
+    'GlassBubble', rendererPreference, backdropSource, onRenderer
+  );
+  const svgFilter = renderer === 'svg-backdrop' && !!mapUrl;
 
   // STYLES
   const containerStyle: React.CSSProperties = {
@@ -396,9 +465,9 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
     height: '100%',
     borderRadius: radius,
     // PARENT: Handles Refraction via SVG Filter
-    // Combines with FROST (blur)
-    backdropFilter: mapUrl ? `url(#${filterId}) blur(${frost}px)` : `blur(${frost}px)`,
-    WebkitBackdropFilter: mapUrl ? `url(#${filterId}) blur(${frost}px)` : `blur(${frost}px)`,
+    // FROST is part of the filter; plain blur only until its grain map is ready
+    backdropFilter: renderer === 'webgl' ? 'none' : svgFilter ? `url(#${filterId}) blur(${cssBlur}px)` : `blur(${frost}px)`,
+    WebkitBackdropFilter: renderer === 'webgl' ? 'none' : svgFilter ? `url(#${filterId}) blur(${cssBlur}px)` : `blur(${frost}px)`,
     
     // PARENT: Handles Shape Clipping
     overflow: 'hidden',
@@ -422,19 +491,40 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
     <motion.div 
       ref={containerRef} 
       style={containerStyle}
+      data-glass-renderer={renderer}
       initial={{ opacity: 0, scale: 0.9 }}
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.8 }}
     >
+      {/* WEBGL FALLBACK: refraction + frost blur over `backdropSource` */}
+      {renderer === 'webgl' && backdrop && maps && mapUrl && (
+        <GlassFallbackCanvas
+          backdrop={backdrop}
+          mapUrl={mapUrl}
+          channels={maps.channels}
+          scale={intensity}
+          blur={frost}
+          onError={fail}
+        />
+      )}
+
       {/* RENDER THE SVG FILTER */}
-      {mapUrl && (
+      {svgFilter && maps && (
         <LiquidGlassFilter 
           id={filterId}
           mapUrl={mapUrl}
+          channels={maps.channels}
           width={dimensions.width}
           height={dimensions.height}
           intensity={intensity}
           chromaticDelta={chromaticDelta}
+          reflection={reflection}
+          environment={environment}
+          highlight={highlight}
+          rimColor={rimColor}
+          frost={frost}
+          frostMaps={frostMaps}
+          frostEtch={frostEtch}
         />
       )}
 
@@ -449,22 +539,15 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
         zIndex: 1,
       }} />
 
-      {/* CHILD 2: SPECULAR (Rim Light & Gloss) */}
+      {/* CHILD 2: SPECULAR (Gloss). The rim light lives in the filter, see GlassRim */}
       <div style={{
         ...layerInset,
-        boxShadow: `
-          inset 0 1px 0 0 rgba(255,255,255, ${highlight * 0.9}),
-          inset 0 -1px 0 0 rgba(255,255,255, ${highlight * 0.3})
-        `,
-        background: `
-          radial-gradient(100% 100% at 30% 20%, rgba(255,255,255,${highlight * 0.6}) 0%, transparent 40%),
-          linear-gradient(180deg, rgba(255,255,255,${highlight * 0.1}) 0%, transparent 100%)
-        `,
+        background: `linear-gradient(180deg, rgba(255,255,255,${highlight * 0.1}) 0%, transparent 100%)`,
         zIndex: 3,
       }} />
       
-      {/* CHILD 3: FROST OVERLAY (Subtle Noise/Grain could be added here if needed) */}
-      {frost > 0 && (
+      {/* CHILD 3: FROST OVERLAY (only until the grain map is ready; then GlassFrost does it) */}
+      {frost > 0 && !frostMaps?.surfaceUrl && (
          <div style={{
             ...layerInset,
             backgroundColor: `rgba(255,255,255, ${Math.min(0.2, frost * 0.02)})`,
@@ -490,15 +573,32 @@ export const GlassBubble: React.FC<GlassBubbleProps> = ({
 // APP: META GLASS
 // -----------------------------------------------------------------------------
 
+const svgUrl = (svg: string) => `data:image/svg+xml,${encodeURIComponent(svg)}`;
+const etchSvg = (shapes: string) =>
+  svgUrl(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" preserveAspectRatio="none">${shapes}</svg>`);
+
+// Sample etch images for the frostEtch prop: only their alpha matters
+const FrostEtches = {
+  none: undefined,
+  stripes: etchSvg('<path d="M0 0h12v100H0zM25 0h12v100H25zM50 0h12v100H50zM75 0h12v100H75z"/>'),
+  ring: etchSvg('<circle cx="50" cy="50" r="32" fill="none" stroke="#000" stroke-width="14"/>'),
+};
+
+type FrostEtchName = keyof typeof FrostEtches;
+
 interface GlassState {
   bezel: number;
   intensity: number;
   chromaticDelta: number;
   frost: number;
+  frostPattern: GlassFrostPattern;
+  frostMask: 'uniform' | 'edge' | 'gradient';
+  frostEtch: FrostEtchName;
   highlight: number;
   radius: number;
   dropShadow: number;
   volumeShadow: number;
+  reflection: number;
   debug: 'off' | 'on';
 }
 
@@ -543,10 +643,14 @@ export const MetaGlassApp = () => {
     intensity: 30, 
     chromaticDelta: 8, 
     frost: 0, 
+    frostPattern: 'grain',
+    frostMask: 'uniform',
+    frostEtch: 'none',
     highlight: 0.6, 
     radius: 80, 
     dropShadow: 0.6,
     volumeShadow: 0.5,
+    reflection: 0.3,
     debug: 'off',
   });
   const [windows, setWindows] = useState([{ id: 'controls', isOpen: true }]);
@@ -564,7 +668,7 @@ export const MetaGlassApp = () => {
          initial={{ x: '-50%', y: '-50%' }}
          drag dragMomentum={true}
       >
-         <GlassBubble {...glass} debug={glass.debug === 'on'} />
+         <GlassBubble {...glass} frostEtch={FrostEtches[glass.frostEtch]} debug={glass.debug === 'on'} />
       </motion.div>
 
       {windows.map(w => (
@@ -573,7 +677,11 @@ export const MetaGlassApp = () => {
               <Slider label="Refraction" value={glass.intensity} min={0} max={100} onChange={v => setGlass(p => ({ ...p, intensity: v }))} />
               <Slider label="Dispersion (RGB)" value={glass.chromaticDelta} min={0} max={30} onChange={v => setGlass(p => ({ ...p, chromaticDelta: v }))} />
               <Slider label="Frost (Blur)" value={glass.frost} min={0} max={20} onChange={v => setGlass(p => ({ ...p, frost: v }))} />
+              <Segmented label="Frost Pattern" options={['grain', 'sandblast']} value={glass.frostPattern} onChange={v => setGlass(p => ({ ...p, frostPattern: v as GlassFrostPattern }))} />
+              <Segmented label="Frost Mask" options={['uniform', 'edge', 'gradient']} value={glass.frostMask} onChange={v => setGlass(p => ({ ...p, frostMask: v as GlassState['frostMask'] }))} />
+              <Segmented label="Frost Etch" options={Object.keys(FrostEtches)} value={glass.frostEtch} onChange={v => setGlass(p => ({ ...p, frostEtch: v as FrostEtchName }))} />
               <Slider label="Specular Highlight" value={glass.highlight} min={0} max={1} onChange={v => setGlass(p => ({ ...p, highlight: v }))} />
+              <Slider label="Reflection" value={glass.reflection} min={0} max={1} onChange={v => setGlass(p => ({ ...p, reflection: v }))} />
               
               <div style={{ height: 1, background: 'rgba(0,0,0,0.1)' }} />
               
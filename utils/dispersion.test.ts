@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { channelScales, isDispersive, GlassAbbePresets } from './dispersion';
+
+describe('channelScales', () => {
+  it('leaves every channel at the base scale without dispersion', () => {
+    expect(channelScales(30)).toEqual({ r: 30, g: 30, b: 30 });
+    expect(isDispersive(channelScales(30, 0))).toBe(false);
+  });
+
+  it('treats a bare number as delta, with red taking the larger scale', () => {
+    expect(channelScales(30, 2)).toEqual({ r: 32, g: 30, b: 28 });
+    expect(channelScales(30, { delta: 2 })).toEqual(channelScales(30, 2));
+  });
+
+  it('gives blue the larger scale from the Abbe term', () => {
+    // 1 / (2V) of the base scale: 40 / 40 = 1
+    expect(channelScales(40, { abbe: 20 })).toEqual({ r: 39, g: 40, b: 41 });
+  });
+
+  it('spreads further for lower Abbe numbers', () => {
+    const flint = channelScales(30, { abbe: GlassAbbePresets.flint });
+    const crown = channelScales(30, { abbe: GlassAbbePresets.crown });
+    expect(flint.b - flint.r).toBeGreaterThan(crown.b - crown.r);
+  });
+
+  it('ignores non-positive Abbe numbers', () => {
+    expect(channelScales(30, { abbe: 0 })).toEqual({ r: 30, g: 30, b: 30 });
+    expect(channelScales(30, { abbe: -5 })).toEqual({ r: 30, g: 30, b: 30 });
+  });
+});
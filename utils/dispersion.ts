@@ -0,0 +1,53 @@
+/**
+ * Chromatic Dispersion
+ * --------------------
+ * Real glass bends blue light more than red. The filters fake it by displacing
+ * the backdrop three times with slightly different scales and keeping one colour
+ * channel from each pass.
+ */
+
+export interface GlassDispersion {
+  /** Artistic split in scale units: red gets scale + delta, blue scale - delta (the old `chromaticDelta`) */
+  delta?: number;
+  /** Abbe number of the material. Lower = stronger dispersion (flint ~36, crown ~59) */
+  abbe?: number;
+}
+
+/** Abbe numbers (V_d) of common materials. */
+export const GlassAbbePresets = {
+  polycarbonate: 30,
+  flint: 36,
+  diamond: 55,
+  acrylic: 57,
+  crown: 59,
+  sapphire: 72,
+} as const;
+
+export type GlassAbbePreset = keyof typeof GlassAbbePresets;
+
+export interface ChannelScales {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Per-channel displacement scales around a base `scale` (used for green).
+ * A bare number is shorthand for `{ delta }`, matching the old `chromaticDelta`.
+ *
+ * Abbe: n_F - n_C = (n_d - 1) / V. For small angles displacement grows with (n - 1),
+ * so the outer channels land at roughly 1 +/- 1 / (2V) of the green scale, with
+ * blue bent the most. `delta` keeps the red-positive `chromaticDelta` convention,
+ * so a positive delta and an Abbe spread pull in opposite directions.
+ */
+export function channelScales(scale: number, dispersion?: number | GlassDispersion): ChannelScales {
+  const { delta = 0, abbe } = typeof dispersion === 'number' ? { delta: dispersion } : dispersion ?? {};
+  const spread = abbe && abbe > 0 ? scale / (2 * abbe) : 0;
+  return {
+    r: scale + delta - spread,
+    g: scale,
+    b: scale - delta + spread,
+  };
+}
+
+export const isDispersive = ({ r, g, b }: ChannelScales) => r !== g || b !== g;
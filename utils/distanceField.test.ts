@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { signedDistanceField, sampleField } from './distanceField';
+
+const W = 20;
+const H = 20;
+
+// Square covering pixels 5-14 on both axes
+const square = () => {
+  const mask = new Float32Array(W * H);
+  for (let y = 5; y < 15; y++) {
+    for (let x = 5; x < 15; x++) mask[y * W + x] = 1;
+  }
+  return mask;
+};
+
+const at = (field: Float32Array, x: number, y: number) => field[y * W + x];
+
+describe('signedDistanceField', () => {
+  it('is negative inside and positive outside', () => {
+    const field = signedDistanceField(square(), W, H);
+    expect(at(field, 10, 10)).toBeLessThan(0);
+    expect(at(field, 0, 0)).toBeGreaterThan(0);
+  });
+
+  it('puts the edge half a pixel past the last covered pixel centre', () => {
+    const field = signedDistanceField(square(), W, H);
+    expect(at(field, 5, 10)).toBe(-0.5);
+    expect(at(field, 4, 10)).toBe(0.5);
+    expect(at(field, 14, 10)).toBe(-0.5);
+    expect(at(field, 15, 10)).toBe(0.5);
+  });
+
+  it('measures exact Euclidean distances', () => {
+    const field = signedDistanceField(square(), W, H);
+    // Nearest outside pixel is 5 columns away (x = 15)
+    expect(at(field, 10, 10)).toBe(-4.5);
+    // Nearest inside pixel is the corner (5, 5), diagonally
+    expect(at(field, 0, 0)).toBeCloseTo(Math.hypot(5, 5) - 0.5, 5);
+  });
+
+  it('reads anti-aliased edge pixels from their coverage', () => {
+    const mask = square();
+    mask[10 * W + 4] = 0.25;
+    mask[10 * W + 15] = 0.75;
+    const field = signedDistanceField(mask, W, H);
+    expect(at(field, 4, 10)).toBe(0.25);
+    expect(at(field, 15, 10)).toBe(-0.25);
+  });
+});
+
+describe('sampleField', () => {
+  const field = Float32Array.from({ length: 4 }, (_, i) => i); // 2 x 2: [0 1 / 2 3]
+
+  it('interpolates bilinearly between pixels', () => {
+    expect(sampleField(field, 2, 2, 0.5, 0)).toBe(0.5);
+    expect(sampleField(field, 2, 2, 0, 0.5)).toBe(1);
+    expect(sampleField(field, 2, 2, 0.5, 0.5)).toBe(1.5);
+  });
+
+  it('clamps coordinates outside the field to its edge', () => {
+    expect(sampleField(field, 2, 2, -3, -3)).toBe(0);
+    expect(sampleField(field, 2, 2, 9, 9)).toBe(3);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Signed Distance Fields
+ * ----------------------
+ * Rasterises a shape into a coverage mask, then runs an exact Euclidean distance
+ * transform (Felzenszwalb & Huttenlocher) on both sides of the edge.
+ * Unlike a formula-based SDF, the bezel comes out the same width all the way round.
+ *
+ * Sign convention matches the analytic SDFs in glassGenerator:
+ * negative inside, 0 on the edge, positive outside.
+ */
+
+export interface GlassPathShape {
+  /** SVG path data, or a Path2D (Path2D forces the main-thread generator) */
+  path: string | Path2D;
+  /** Coordinate box of the path. Omit to use element pixels directly. */
+  viewBox?: [number, number, number, number];
+  /** 'contain' keeps the path's aspect ratio, 'fill' stretches it to the element */
+  fit?: 'contain' | 'fill';
+  /** 'evenodd' punches holes where subpaths overlap */
+  fillRule?: CanvasFillRule;
+}
+
+const INF = 1e20;
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/** Fills `shape` into a width x height coverage mask. 1 = inside, 0 = outside, fractions on the edge. */
+export function rasterizePath(shape: GlassPathShape, width: number, height: number): Float32Array {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  const mask = new Float32Array(width * height);
+  if (!ctx) return mask;
+
+  if (shape.viewBox) {
+    const [vx, vy, vw, vh] = shape.viewBox;
+    let sx = width / vw;
+    let sy = height / vh;
+    let ox = 0;
+    let oy = 0;
+    if ((shape.fit ?? 'contain') === 'contain') {
+      sx = sy = Math.min(sx, sy);
+      ox = (width - vw * sx) / 2;
+      oy = (height - vh * sy) / 2;
+    }
+    ctx.setTransform(sx, 0, 0, sy, ox - vx * sx, oy - vy * sy);
+  }
+
+  const path = typeof shape.path === 'string' ? new Path2D(shape.path) : shape.path;
+  ctx.fillStyle = '#fff';
+  ctx.fill(path, shape.fillRule ?? 'nonzero');
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 0; i < mask.length; i++) mask[i] = pixels[i * 4 + 3] / 255;
+  return mask;
+}
+
+/**
+ * 1D squared distance transform of sampled function f (lower envelope of parabolas).
+ * Reads f[offset + i * stride] for i < n and writes the result back in place.
+ */
+const edt1d = (
+  grid: Float32Array, offset: number, stride: number, n: number,
+  f: Float32Array, d: Float32Array, v: Int32Array, z: Float32Array
+) => {
+  for (let i = 0; i < n; i++) f[i] = grid[offset + i * stride];
+
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    const dq = q - v[k];
+    d[q] = dq * dq + f[v[k]];
+  }
+
+  for (let i = 0; i < n; i++) grid[offset + i * stride] = d[i];
+};
+
+/** Squared distance from every pixel to the nearest pixel on the `inside` side of the 50% coverage line. */
+const squaredDistanceTo = (mask: Float32Array, width: number, height: number, inside: boolean) => {
+  const grid = new Float32Array(width * height);
+  for (let i = 0; i < grid.length; i++) grid[i] = (mask[i] >= 0.5) === inside ? 0 : INF;
+
+  const n = Math.max(width, height);
+  const f = new Float32Array(n);
+  const d = new Float32Array(n);
+  const v = new Int32Array(n);
+  const z = new Float32Array(n + 1);
+
+  for (let x = 0; x < width; x++) edt1d(grid, x, width, height, f, d, v, z);
+  for (let y = 0; y < height; y++) edt1d(grid, y * width, 1, width, f, d, v, z);
+  return grid;
+};
+
+/** Exact signed distance (in pixels) to the edge of a coverage mask. */
+export function signedDistanceField(mask: Float32Array, width: number, height: number): Float32Array {
+  const toInside = squaredDistanceTo(mask, width, height, true);
+  const toOutside = squaredDistanceTo(mask, width, height, false);
+  const field = new Float32Array(width * height);
+
+  for (let i = 0; i < field.length; i++) {
+    const coverage = mask[i];
+    if (coverage > 0 && coverage < 1) {
+      // Anti-aliased edge pixel: coverage tells us where the edge crosses it
+      field[i] = 0.5 - coverage;
+    } else {
+      // The edge sits half a pixel past the last covered pixel centre
+      field[i] = coverage >= 0.5
+        ? 0.5 - Math.sqrt(toOutside[i])
+        : Math.sqrt(toInside[i]) - 0.5;
+    }
+  }
+  return field;
+}
+
+/** Bilinear lookup with edge clamping, so warped coordinates stay smooth. */
+export function sampleField(field: Float32Array, width: number, height: number, x: number, y: number) {
+  const fx = Math.max(0, Math.min(width - 1, x));
+  const fy = Math.max(0, Math.min(height - 1, y));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const top = field[y0 * width + x0] * (1 - tx) + field[y0 * width + x1] * tx;
+  const bottom = field[y1 * width + x0] * (1 - tx) + field[y1 * width + x1] * tx;
+  return top * (1 - ty) + bottom * ty;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { computeFrostPixels, FROST_CHANNELS } from './frostGenerator';
+
+const W = 32;
+const H = 16;
+
+const channel = (data: Uint8ClampedArray, offset: number) => data.filter((_, i) => i % 4 === offset);
+
+describe('computeFrostPixels', () => {
+  it('keeps alpha opaque and the mask in B, as FROST_CHANNELS says', () => {
+    expect(FROST_CHANNELS.mask).toBe('B');
+    const data = computeFrostPixels({ width: W, height: H, mask: 'edge', radius: 4 });
+    expect(channel(data, 3).every((a) => a === 255)).toBe(true);
+    // Frosted border, clear centre
+    expect(data[2]).toBe(255);
+    expect(data[((H / 2) * W + W / 2) * 4 + 2]).toBe(0);
+  });
+
+  it('scatters around 128 in R and G', () => {
+    const data = computeFrostPixels({ width: W, height: H, pattern: 'sandblast' });
+    [0, 1].forEach((offset) => {
+      const values = Array.from(channel(data, offset));
+      const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+      expect(Math.abs(average - 128)).toBeLessThan(16);
+      expect(new Set(values).size).toBeGreaterThan(20);
+    });
+  });
+
+  it('is deterministic per seed', () => {
+    const a = computeFrostPixels({ width: W, height: H, seed: 3 });
+    expect(computeFrostPixels({ width: W, height: H, seed: 3 })).toEqual(a);
+    expect(computeFrostPixels({ width: W, height: H, seed: 4 })).not.toEqual(a);
+  });
+
+  it('ramps a gradient mask from `from` to `to` along `angle`', () => {
+    // angle 0: left to right
+    const data = computeFrostPixels({ width: W, height: H, mask: { type: 'gradient', angle: 0, from: 1, to: 0 } });
+    const row = Array.from({ length: W }, (_, x) => data[(4 * W + x) * 4 + 2]);
+    expect(row[0]).toBeGreaterThan(240);
+    expect(row[W - 1]).toBeLessThan(15);
+    row.forEach((v, x) => {
+      if (x > 0) expect(v).toBeLessThanOrEqual(row[x - 1]);
+    });
+  });
+});
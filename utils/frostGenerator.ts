@@ -0,0 +1,164 @@
+import type { GlassMaps } from './glassGenerator';
+import type { GlassChannelLayout } from './mapChannels';
+
+/**
+ * Frost Map Generator
+ * -------------------
+ * Frosted glass scatters light through a rough surface. The map stores a random
+ * scatter direction per pixel (R/G, 128 = none) and how frosted each pixel is (B),
+ * so one filter can blur and scatter only the etched regions. Alpha stays at 255:
+ * canvas stores premultiplied pixels, so R/G under a faint mask would lose most
+ * of their precision.
+ *
+ * PATTERNS:
+ * 'grain'      Smooth value noise at `grainSize`: soft, acid-etched frost.
+ * 'sandblast'  Per-pixel speckle, mottled at a coarser scale: sharp, matte pitting.
+ *
+ * MASKS (B channel):
+ * 'uniform'    Frosted everywhere.
+ * 'edge'       Frosted border fading to a clear centre over `width` px.
+ * 'gradient'   Linear ramp from `from` to `to` (frost amount, 0-1) along `angle`.
+ * Painted masks (images, SVG) are applied in the filter on top of this, see GlassFrost.
+ *
+ * This is the 'frost' backend of the glass map pipeline (glassPipeline.ts).
+ */
+
+export type GlassFrostPattern = 'grain' | 'sandblast';
+
+export type GlassFrostMask =
+  | 'uniform'
+  | 'edge'
+  | 'gradient'
+  | { type: 'edge'; width?: number }
+  | { type: 'gradient'; angle?: number; from?: number; to?: number };
+
+export interface FrostMapOptions {
+  width: number;
+  height: number;
+  pattern?: GlassFrostPattern;
+  /** Feature size of the grain in pixels. Default 2 */
+  grainSize?: number;
+  /** Same seed, same grain */
+  seed?: number;
+  mask?: GlassFrostMask;
+  /** Corner radius for the 'edge' mask, so the border follows the glass. Default 0 */
+  radius?: number;
+}
+
+/** Frost maps carry scatter and coverage, but no height. */
+export const FROST_CHANNELS: GlassChannelLayout = {
+  displaceX: 'R',
+  displaceY: 'G',
+  mask: 'B',
+};
+
+// Integer hash of a lattice point, in [0, 1)
+const hash = (x: number, y: number, seed: number) => {
+  let h = Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(seed, 0x9e3779b9);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+// Bilinear value noise in [0, 1)
+const valueNoise = (x: number, y: number, seed: number) => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smooth(x - x0);
+  const ty = smooth(y - y0);
+  const a = hash(x0, y0, seed);
+  const b = hash(x0 + 1, y0, seed);
+  const c = hash(x0, y0 + 1, seed);
+  const d = hash(x0 + 1, y0 + 1, seed);
+  return a + (b - a) * tx + (c - a) * ty + (a - b - c + d) * tx * ty;
+};
+
+// Distance inside a rounded rect, 0 on the border
+const insetDistance = (x: number, y: number, width: number, height: number, radius: number) => {
+  const r = Math.min(radius, width / 2, height / 2);
+  const qx = Math.abs(x - width / 2) - (width / 2 - r);
+  const qy = Math.abs(y - height / 2) - (height / 2 - r);
+  const outside = Math.hypot(Math.max(qx, 0), Math.max(qy, 0));
+  return r - (outside + Math.min(Math.max(qx, qy), 0));
+};
+
+/** Per-pixel frost amount (0-1) for `mask`. */
+function maskSampler(mask: GlassFrostMask, width: number, height: number, radius: number) {
+  const spec = typeof mask === 'string' ? { type: mask } : mask;
+
+  if (spec.type === 'edge') {
+    const band = Math.max(1, ('width' in spec && spec.width) || Math.min(width, height) / 4);
+    return (x: number, y: number) => 1 - smooth(Math.min(1, Math.max(0, insetDistance(x, y, width, height, radius) / band)));
+  }
+
+  if (spec.type === 'gradient') {
+    const { angle = 90, from = 1, to = 0 } = spec as { angle?: number; from?: number; to?: number };
+    const dx = Math.cos((angle * Math.PI) / 180);
+    const dy = Math.sin((angle * Math.PI) / 180);
+    // Project the corners so t runs 0-1 across the whole element
+    const span = Math.abs(dx) * width + Math.abs(dy) * height || 1;
+    const start = Math.min(0, dx * width) + Math.min(0, dy * height);
+    return (x: number, y: number) => from + (to - from) * ((x * dx + y * dy - start) / span);
+  }
+
+  return () => 1;
+}
+
+/** Raw RGBA frost pixels. Worker-safe. */
+export function computeFrostPixels({
+  width,
+  height,
+  pattern = 'grain',
+  grainSize = 2,
+  seed = 1,
+  mask = 'uniform',
+  radius = 0,
+}: FrostMapOptions): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const amount = maskSampler(mask, width, height, radius);
+  const cell = Math.max(0.5, grainSize);
+  const seedX = seed * 2 + 1;
+  const seedY = seed * 2 + 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sx: number;
+      let sy: number;
+
+      if (pattern === 'sandblast') {
+        // Independent per-pixel directions, strength mottled by coarse noise
+        const mottle = 0.6 + 0.4 * valueNoise(x / (cell * 6), y / (cell * 6), seed);
+        sx = (hash(x, y, seedX) - 0.5) * 2 * mottle;
+        sy = (hash(x, y, seedY) - 0.5) * 2 * mottle;
+      } else {
+        sx = (valueNoise(x / cell, y / cell, seedX) - 0.5) * 2;
+        sy = (valueNoise(x / cell, y / cell, seedY) - 0.5) * 2;
+      }
+
+      const i = (y * width + x) * 4;
+      data[i] = 128 + sx * 127;
+      data[i + 1] = 128 + sy * 127;
+      data[i + 2] = Math.max(0, Math.min(1, amount(x + 0.5, y + 0.5))) * 255;
+      data[i + 3] = 255;
+    }
+  }
+
+  return data;
+}
+
+/** PNG data URL frost map. */
+export function generateFrostMap(options: FrostMapOptions): GlassMaps {
+  const { width, height } = options;
+  if (width <= 0 || height <= 0) return { surfaceUrl: '', channels: FROST_CHANNELS };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { surfaceUrl: '', channels: FROST_CHANNELS };
+
+  ctx.putImageData(new ImageData(computeFrostPixels(options), width, height), 0, 0);
+  return { surfaceUrl: canvas.toDataURL('image/png'), channels: FROST_CHANNELS };
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { computeGlassComposite, GlassPixels } from './glassCompositor';
+
+const W = 16;
+const H = 8;
+
+const pixels = (width: number, height: number, at: (x: number, y: number) => number[]): GlassPixels => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(at(x, y), (y * width + x) * 4);
+  }
+  return { data, width, height };
+};
+
+// Opaque, and every column different in each channel so shifts are visible
+const background = pixels(W, H, (x, y) => [x * 15, 255 - x * 15, (x * 7 + y * 3) % 256, 255]);
+
+const pixel = (data: Uint8ClampedArray, x: number, y: number) => Array.from(data.subarray((y * W + x) * 4, (y * W + x) * 4 + 4));
+
+describe('computeGlassComposite', () => {
+  it('leaves the background unchanged under an identity map', () => {
+    const map = pixels(W, H, () => [128, 128, 255, 255]);
+    const out = computeGlassComposite({ background, map, scale: 30 });
+    expect(Array.from(out)).toEqual(Array.from(background.data));
+  });
+
+  it('shifts by scale / 2 where a channel is saturated', () => {
+    // R = 255: dx = +0.5, so every pixel samples 4px to its right
+    const map = pixels(W, H, () => [255, 128, 255, 255]);
+    const out = computeGlassComposite({ background, map, scale: 8 });
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W - 4; x++) expect(pixel(out, x, y)).toEqual(pixel(background.data, x + 4, y));
+    }
+  });
+
+  it('shows the background where the shift samples outside it', () => {
+    const map = pixels(W, H, () => [255, 128, 255, 255]);
+    const out = computeGlassComposite({ background, map, scale: 8 });
+    // The displaced glass is transparent there, so the original shows through
+    for (let x = W - 4; x < W; x++) expect(pixel(out, x, 0)).toEqual(pixel(background.data, x, 0));
+  });
+
+  it('gives red the larger scale with dispersion', () => {
+    const map = pixels(W, H, () => [255, 128, 255, 255]);
+    const out = computeGlassComposite({ background, map, scale: 8, dispersion: { delta: 2 } });
+    const [r, g, b] = pixel(out, 2, 0);
+    expect(r).toBe(pixel(background.data, 2 + 5, 0)[0]); // (8 + 2) / 2
+    expect(g).toBe(pixel(background.data, 2 + 4, 0)[1]);
+    expect(b).toBe(pixel(background.data, 2 + 3, 0)[2]); // (8 - 2) / 2
+  });
+
+  it('only changes the pixels under the glass', () => {
+    const map = pixels(4, 4, () => [255, 255, 255, 255]);
+    const out = computeGlassComposite({ background, map, x: 6, y: 2, scale: 4 });
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        const under = x >= 6 && x < 10 && y >= 2 && y < 6;
+        const expected = under ? pixel(background.data, x + 2, y + 2) : pixel(background.data, x, y);
+        expect(pixel(out, x, y)).toEqual(expected);
+      }
+    }
+  });
+});
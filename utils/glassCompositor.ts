@@ -0,0 +1,342 @@
+import type { GlassChannel, GlassChannelLayout } from './mapChannels';
+import { STANDARD_CHANNELS } from './mapChannels';
+import { GlassDispersion, channelScales } from './dispersion';
+import type { GlassLight } from './glassLighting';
+import { parseHexColor } from './glassTint';
+
+/**
+ * Glass Compositor (CPU)
+ * ----------------------
+ * A pure-TypeScript reference for the SVG glass filters, for PNG snapshots and
+ * headless tests. Mirrors what Chromium does with
+ * `backdrop-filter: url(#glass) blur(Npx)` over a background:
+ *
+ * 1. feDisplacementMap  P'(x, y) = P(x + scale * (X - 0.5), y + scale * (Y - 0.5)),
+ *                       nearest pixel, transparent outside the background.
+ *                       With dispersion: one pass per colour channel, then added.
+ * 2. Lighting (opt.)    GlassSVGDefinitions: specular + diffuse per light from the
+ *                       height channel (Sobel normals, as in the SVG spec), then
+ *                       inverted diffuse minus shadowStrength * litBody, clipped by height.
+ *                       Without lighting the map's mask (if any) clips instead.
+ * 3. blur(Npx)          Gaussian, approximated by three box passes.
+ * 4. Over the original background.
+ *
+ * All maths runs on premultiplied floats in sRGB (colorInterpolationFilters="sRGB").
+ * `computeGlassComposite` needs no DOM; `renderGlassPng` needs a canvas for encoding.
+ */
+
+/** Anything shaped like ImageData (non-premultiplied RGBA bytes). */
+export interface GlassPixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface GlassCompositeLighting {
+  lights: GlassLight[];
+  /** Default 1.5 (GlassOverlay) */
+  specularConstant?: number;
+  /** Default 40 */
+  specularExponent?: number;
+  /** Default 0.5 */
+  diffuseStrength?: number;
+  /** Default 0.6 */
+  shadowStrength?: number;
+  /** Bezel depth for the specular pass; diffuse uses half. Default 20 */
+  surfaceScale?: number;
+}
+
+export interface GlassCompositeOptions {
+  /** What's behind the glass */
+  background: GlassPixels;
+  /** The glass map, same size as the glass */
+  map: GlassPixels;
+  channels?: GlassChannelLayout;
+  /** Where the glass's top-left sits on the background. Default 0, 0 */
+  x?: number;
+  y?: number;
+  /** Displacement scale in px */
+  scale: number;
+  /** Chromatic dispersion: a red/blue scale offset, or { delta, abbe } */
+  dispersion?: number | GlassDispersion;
+  /** CSS blur after the filter, in px */
+  blur?: number;
+  lighting?: GlassCompositeLighting;
+}
+
+type Buffer4 = Float32Array;
+
+const CHANNEL_INDEX: Record<GlassChannel, number> = { R: 0, G: 1, B: 2, A: 3 };
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+/** Stage 1: feDisplacementMap, optionally once per colour channel. */
+function displace(
+  background: GlassPixels,
+  map: GlassPixels,
+  channels: GlassChannelLayout,
+  x0: number,
+  y0: number,
+  scale: number,
+  dispersion?: number | GlassDispersion
+): Buffer4 {
+  const { width, height } = map;
+  const scales = channelScales(scale, dispersion);
+  const passes = [scales.r, scales.g, scales.b];
+  const single = scales.r === scales.g && scales.b === scales.g;
+  const cx = CHANNEL_INDEX[channels.displaceX];
+  const cy = CHANNEL_INDEX[channels.displaceY];
+  const out = new Float32Array(width * height * 4);
+  const bg = background.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      // Map values are read un-premultiplied, as the spec requires
+      const dx = map.data[i + cx] / 255 - 0.5;
+      const dy = map.data[i + cy] / 255 - 0.5;
+      let alpha = 0;
+
+      for (let c = 0; c < 3; c++) {
+        const pass = single ? 0 : c;
+        const sx = Math.round(x + x0 + passes[pass] * dx);
+        const sy = Math.round(y + y0 + passes[pass] * dy);
+        if (sx < 0 || sy < 0 || sx >= background.width || sy >= background.height) continue;
+        const j = (sy * background.width + sx) * 4;
+        const a = bg[j + 3] / 255;
+        out[i + c] = (bg[j + c] / 255) * a;
+        // Single pass: alpha of the one sample. Dispersion: the additive merge saturates
+        alpha = single ? a : Math.min(1, alpha + a);
+      }
+      out[i + 3] = alpha;
+    }
+  }
+  return out;
+}
+
+/** Light vector and colour factor at a surface point, per the SVG light source definitions. */
+function lightAt(light: GlassLight, x: number, y: number, z: number, out: [number, number, number]): number {
+  if (light.type === 'distant') {
+    const az = (light.azimuth * Math.PI) / 180;
+    const el = (light.elevation * Math.PI) / 180;
+    out[0] = Math.cos(az) * Math.cos(el);
+    out[1] = Math.sin(az) * Math.cos(el);
+    out[2] = Math.sin(el);
+    return 1;
+  }
+
+  let lx = light.x - x;
+  let ly = light.y - y;
+  let lz = light.z - z;
+  const len = Math.hypot(lx, ly, lz) || 1;
+  lx /= len; ly /= len; lz /= len;
+  out[0] = lx; out[1] = ly; out[2] = lz;
+  if (light.type === 'point') return 1;
+
+  // Spot: falloff towards pointsAt, hard cut at the cone
+  let sx = light.pointsAtX - light.x;
+  let sy = light.pointsAtY - light.y;
+  let sz = (light.pointsAtZ ?? 0) - light.z;
+  const slen = Math.hypot(sx, sy, sz) || 1;
+  sx /= slen; sy /= slen; sz /= slen;
+  const cos = -(lx * sx + ly * sy + lz * sz);
+  if (cos <= 0) return 0;
+  if (light.coneAngle !== undefined && cos < Math.cos((light.coneAngle * Math.PI) / 180)) return 0;
+  return Math.pow(cos, light.focus ?? 1);
+}
+
+/** Stage 2: the lighting half of GlassSVGDefinitions, applied to `body` in place. */
+function light(body: Buffer4, map: GlassPixels, channels: GlassChannelLayout, options: GlassCompositeLighting) {
+  const {
+    lights,
+    specularConstant = 1.5,
+    specularExponent = 40,
+    diffuseStrength = 0.5,
+    shadowStrength = 0.6,
+    surfaceScale = 20,
+  } = options;
+  const { width, height } = map;
+  const ch = CHANNEL_INDEX[channels.height ?? 'B'];
+  const heightAt = (x: number, y: number) => {
+    const cx = x < 0 ? 0 : x >= width ? width - 1 : x;
+    const cy = y < 0 ? 0 : y >= height ? height - 1 : y;
+    return map.data[(cy * width + cx) * 4 + ch] / 255;
+  };
+  const colors = lights.map((l) => parseHexColor(l.color ?? '#ffffff'));
+  const L: [number, number, number] = [0, 0, 0];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const h = heightAt(x, y);
+
+      // Sobel gradient of the height (SVG spec, interior kernel)
+      const gx =
+        heightAt(x + 1, y - 1) + 2 * heightAt(x + 1, y) + heightAt(x + 1, y + 1) -
+        heightAt(x - 1, y - 1) - 2 * heightAt(x - 1, y) - heightAt(x - 1, y + 1);
+      const gy =
+        heightAt(x - 1, y + 1) + 2 * heightAt(x, y + 1) + heightAt(x + 1, y + 1) -
+        heightAt(x - 1, y - 1) - 2 * heightAt(x, y - 1) - heightAt(x + 1, y - 1);
+
+      let sr = 0, sg = 0, sb = 0, sa = 0; // premultiplied specular sum
+      let dr = 0, dg = 0, db = 0; // diffuse sum (alpha is always 1)
+
+      lights.forEach((source, n) => {
+        const intensity = source.intensity ?? 1;
+        const [cr, cg, cb] = colors[n];
+
+        // Specular pass (full surfaceScale)
+        {
+          const nx = -surfaceScale * 0.25 * gx;
+          const ny = -surfaceScale * 0.25 * gy;
+          const nlen = Math.hypot(nx, ny, 1);
+          const factor = lightAt(source, x, y, surfaceScale * h, L);
+          const hx = L[0], hy = L[1], hz = L[2] + 1;
+          const hlen = Math.hypot(hx, hy, hz) || 1;
+          const nDotH = Math.max(0, (nx * hx + ny * hy + hz) / (nlen * hlen));
+          const k = specularConstant * intensity * Math.pow(nDotH, specularExponent) * factor;
+          const r = clamp01(k * cr), g = clamp01(k * cg), b = clamp01(k * cb);
+          const a = Math.max(r, g, b);
+          sr += r * a; sg += g * a; sb += b * a; sa += a;
+        }
+
+        // Diffuse pass (half surfaceScale)
+        {
+          const half = surfaceScale / 2;
+          const nx = -half * 0.25 * gx;
+          const ny = -half * 0.25 * gy;
+          const nlen = Math.hypot(nx, ny, 1);
+          const factor = lightAt(source, x, y, half * h, L);
+          const nDotL = Math.max(0, (nx * L[0] + ny * L[1] + L[2]) / nlen);
+          const k = diffuseStrength * intensity * nDotL * factor;
+          dr += clamp01(k * cr); dg += clamp01(k * cg); db += clamp01(k * cb);
+        }
+      });
+
+      // litBody = specular + body; final = (1 - diffuse) - shadowStrength * litBody; then "in" height
+      const shadow = [1 - clamp01(dr), 1 - clamp01(dg), 1 - clamp01(db), 1];
+      const spec = [clamp01(sr), clamp01(sg), clamp01(sb), clamp01(sa)];
+      for (let c = 0; c < 4; c++) {
+        const lit = clamp01(spec[c] + body[i + c]);
+        body[i + c] = clamp01(shadow[c] - shadowStrength * lit) * h;
+      }
+    }
+  }
+}
+
+/** Multiply by the map's mask channel (the CSS mask-image in GlassBubble). */
+function clipToMask(body: Buffer4, map: GlassPixels, mask: GlassChannel) {
+  const c = CHANNEL_INDEX[mask];
+  for (let i = 0; i < body.length; i += 4) {
+    const m = map.data[i + c] / 255;
+    body[i] *= m; body[i + 1] *= m; body[i + 2] *= m; body[i + 3] *= m;
+  }
+}
+
+/** One box blur pass of radius r along x or y, edges transparent. */
+function boxPass(src: Buffer4, dst: Buffer4, width: number, height: number, r: number, horizontal: boolean) {
+  const size = 2 * r + 1;
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 4 : width * 4;
+
+  for (let line = 0; line < lines; line++) {
+    const base = horizontal ? line * width * 4 : line * 4;
+    for (let c = 0; c < 4; c++) {
+      let sum = 0;
+      for (let k = 0; k <= r && k < length; k++) sum += src[base + k * step + c];
+      for (let p = 0; p < length; p++) {
+        dst[base + p * step + c] = sum / size;
+        const add = p + r + 1;
+        const remove = p - r;
+        if (add < length) sum += src[base + add * step + c];
+        if (remove >= 0) sum -= src[base + remove * step + c];
+      }
+    }
+  }
+}
+
+/** Stage 3: Gaussian blur with stdDeviation `sigma`, as three box blurs per axis. */
+function gaussianBlur(buffer: Buffer4, width: number, height: number, sigma: number): Buffer4 {
+  if (sigma <= 0) return buffer;
+  // Box sizes whose variance adds up to sigma^2 (W3C filter-effects approximation)
+  const d = Math.max(1, Math.floor((sigma * 3 * Math.sqrt(2 * Math.PI)) / 4 + 0.5));
+  const r = Math.floor(d / 2);
+  let a = buffer;
+  let b = new Float32Array(buffer.length);
+  for (const horizontal of [true, false]) {
+    for (let n = 0; n < 3; n++) {
+      boxPass(a, b, width, height, r, horizontal);
+      [a, b] = [b, a];
+    }
+  }
+  return a;
+}
+
+/**
+ * Composites the glass over `background` and returns un-premultiplied RGBA
+ * the size of the background. Pure: no DOM, safe in workers and tests.
+ */
+export function computeGlassComposite(options: GlassCompositeOptions): Uint8ClampedArray {
+  const { background, map, channels = STANDARD_CHANNELS, x = 0, y = 0, scale, dispersion, blur = 0, lighting } = options;
+  const { width, height } = map;
+
+  let glass = displace(background, map, channels, x, y, scale, dispersion);
+  if (lighting && lighting.lights.length > 0) light(glass, map, channels, lighting);
+  else if (channels.mask) clipToMask(glass, map, channels.mask);
+  glass = gaussianBlur(glass, width, height, blur);
+
+  // Stage 4: source-over onto the untouched background
+  const out = new Uint8ClampedArray(background.data);
+  for (let gy = 0; gy < height; gy++) {
+    const by = gy + y;
+    if (by < 0 || by >= background.height) continue;
+    for (let gx = 0; gx < width; gx++) {
+      const bx = gx + x;
+      if (bx < 0 || bx >= background.width) continue;
+      const g = (gy * width + gx) * 4;
+      const o = (by * background.width + bx) * 4;
+      const ba = out[o + 3] / 255;
+      const ga = glass[g + 3];
+      const alpha = ga + ba * (1 - ga);
+      for (let c = 0; c < 3; c++) {
+        const premul = glass[g + c] + (out[o + c] / 255) * ba * (1 - ga);
+        out[o + c] = alpha > 0 ? (premul / alpha) * 255 : 0;
+      }
+      out[o + 3] = alpha * 255;
+    }
+  }
+  return out;
+}
+
+/** Snapshot as a PNG Blob. Needs OffscreenCanvas or a document for encoding. */
+export async function renderGlassPng(options: GlassCompositeOptions): Promise<Blob> {
+  const { width, height } = options.background;
+  const image = new ImageData(computeGlassComposite(options), width, height);
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.putImageData(image, 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+/** Decodes a map URL (maps.surfaceUrl, PNG or SVG) into pixels for `map`. */
+export async function loadGlassPixels(url: string): Promise<GlassPixels> {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
@@ -1,35 +1,124 @@
+import { GlassPathShape, rasterizePath, signedDistanceField, sampleField } from './distanceField';
+import { GlassProfileCurve, sampleProfileCurve } from './profileCurves';
+import { GlassRefraction, refractOffset, resolveIor } from './refraction';
+import { GlassMapEncoding, GlassQuantizationError, createChannelEncoder } from './mapEncoding';
+import { GlassChannelLayout, STANDARD_CHANNELS } from './mapChannels';
 
+export type { GlassPathShape } from './distanceField';
+export type { GlassProfileCurve } from './profileCurves';
+export type { GlassRefraction, GlassIorPreset } from './refraction';
+export type { GlassMapEncoding, GlassQuantizationError } from './mapEncoding';
+export type { GlassChannel, GlassChannelLayout } from './mapChannels';
 export type GlassShapeProfile = 'convex' | 'concave' | 'flat' | 'liquid';
-export type GlassShape = 'rect' | 'squircle';
+export type GlassShape = 'rect' | 'squircle' | GlassPathShape;
+export type GlassSquircleMode = 'full' | 'corners';
 
-interface GlassMaps {
-  surfaceUrl: string; // Packed: R=NormX, G=NormY, B=Height, A=Mask
+/**
+ * Everything the raster generator needs, in one typed object.
+ * Only the geometry is required; the rest falls back to the classic convex glass.
+ */
+export interface GlassSurfaceOptions {
+  width: number;
+  height: number;
+  /** Corner radius for 'rect' and squircle 'corners' */
+  radius: number;
+  /** Width of the sloped rim, in pixels */
+  bezel: number;
+  shape?: GlassShape;
+  /** Preset name or a custom curve for the rim's cross-section */
+  profile?: GlassShapeProfile | GlassProfileCurve;
+  /** Erosion blur radius that softens the height map (surface tension). Default 2 */
+  tension?: number;
+  /** Noise turbulence applied to the outline (0 = clean edge) */
+  warp?: number;
+  /** Seeds the noise used by 'liquid' and warp. Same seed, same surface. */
+  seed?: number;
+  /** Position along the noise's time axis. Advance it to animate the liquid surface. */
+  time?: number;
+  /**
+   * 'exact' (default): Euclidean distance transform of the rasterised shape, uniform bezel width.
+   * 'fast': the analytic formulas. Cheaper, but the squircle bezel varies around the edge.
+   * Path shapes are always exact; the rounded rect is exact either way.
+   */
+  sdf?: 'exact' | 'fast';
+  /** Superellipse exponent n. 2 = ellipse/circle, 4 = classic squircle, higher tends to a rect. */
+  squircleExponent?: number;
+  /**
+   * 'full': the whole element is one superellipse.
+   * 'corners': a rect whose `radius` corners are superellipse arcs (iOS-style continuous corners).
+   */
+  squircleMode?: GlassSquircleMode;
+  /** Normal strength in artistic mode: how hard a given slope bends. Default 4 */
+  steepness?: number;
+  /**
+   * Physical mode: R/G hold the Snell's law displacement for this IOR and thickness
+   * instead of scaled normals, and the matching `feDisplacementMap` scale is returned.
+   */
+  refraction?: GlassRefraction;
+  /** How R/G are quantised to 8 bits. 'companded' maps need the matching filter decode. */
+  encoding?: GlassMapEncoding;
+  /** Keep A at 255 everywhere, for filters that clip the shape themselves */
+  opaque?: boolean;
+}
+
+export interface GlassMaps {
+  surfaceUrl: string;
+  /** What each channel of the image holds. Build filter selectors from this. */
+  channels: GlassChannelLayout;
+  /** Physical mode only: the `feDisplacementMap` scale that turns R/G back into pixels */
+  scale?: number;
+  /** R/G rounding error inside the mask, as a fraction of the channel range */
+  quantizationError?: GlassQuantizationError;
+}
+
+/** Raw generator output, before it's encoded into an image. */
+export interface GlassSurface {
+  pixels: Uint8ClampedArray;
+  channels: GlassChannelLayout;
+  scale?: number;
+  quantizationError?: GlassQuantizationError;
 }
 
 /**
  * 5-Stage Hydro-Physical Glass Map Generator
  * ------------------------------------------
- * Now supports 'rect' (Rounded Box) and 'squircle' (Superellipse).
+ * Now supports 'rect' (Rounded Box), 'squircle' (Superellipse, whole element or
+ * corners only) and arbitrary SVG paths (rasterised, then measured with an exact
+ * distance transform).
+ *
+ * This is the 'raster-sdf' backend of the glass map pipeline (glassPipeline.ts).
  */
-export function generateGlassMaps(
-  width: number,
-  height: number,
-  radius: number,
-  bezel: number,
-  shape: GlassShape = 'rect',
-  profile: GlassShapeProfile = 'convex',
-  tension: number = 2.0,
-  warp: number = 0.0
-): GlassMaps {
-  
-  if (width <= 0 || height <= 0) return { surfaceUrl: '' };
+export function generateGlassMaps(options: GlassSurfaceOptions): GlassMaps {
+  const { width, height } = options;
+  if (width <= 0 || height <= 0) return { surfaceUrl: '', channels: STANDARD_CHANNELS };
 
   const canvas = document.createElement('canvas');
   canvas.width = width;
   canvas.height = height;
   const ctx = canvas.getContext('2d');
 
-  if (!ctx) return { surfaceUrl: '' };
+  if (!ctx) return { surfaceUrl: '', channels: STANDARD_CHANNELS };
+
+  const { pixels, ...surface } = computeGlassSurface(options);
+  ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return { surfaceUrl: canvas.toDataURL('image/png'), ...surface };
+}
+
+/**
+ * Runs stages 1-5 and returns the packed RGBA pixels (plus the scale in physical mode).
+ * Only uses worker-safe APIs (OffscreenCanvas for path shapes), so it can run in a Web Worker.
+ */
+export function computeGlassSurface(options: GlassSurfaceOptions): GlassSurface {
+  const {
+    width,
+    height,
+    radius,
+    bezel,
+    shape = 'rect',
+    profile = 'convex',
+    tension = 2.0,
+    warp = 0.0,
+  } = options;
 
   // --- INIT BUFFERS ---
   const size = width * height;
@@ -44,29 +133,94 @@ export function generateGlassMaps(
   const bx = (width / 2) - r;
   const by = (height / 2) - r;
 
+  const n = Math.max(2, options.squircleExponent ?? 4);
+  const squircleCorners = options.squircleMode === 'corners';
+
+  // Analytic distance: exact for the rounded box, an approximation for the squircle
+  const analyticDist = (px: number, py: number) => {
+    if (shape === 'squircle' && !squircleCorners) {
+      // Squircle SDF Approximation (Superellipse)
+      // |x/a|^n + |y/b|^n = 1
+      const nx = (px - cx) / (width / 2);
+      const ny = (py - cy) / (height / 2);
+      const val = Math.pow(Math.abs(nx), n) + Math.pow(Math.abs(ny), n);
+
+      // Approx distance from edge: (v^(1/n) - 1) * radius_scale
+      // This gives 0 at edge, positive outside, negative inside.
+      return (Math.pow(val, 1 / n) - 1.0) * (Math.min(width, height) / 2);
+    }
+    // Rounded Box SDF. Squircle corners swap the corner's L2 norm for an Ln norm.
+    const dx = Math.abs(px - cx) - bx;
+    const dy = Math.abs(py - cy) - by;
+    const ox = Math.max(dx, 0);
+    const oy = Math.max(dy, 0);
+    const dOuter = shape === 'squircle'
+      ? Math.pow(Math.pow(ox, n) + Math.pow(oy, n), 1 / n)
+      : Math.sqrt(ox ** 2 + oy ** 2);
+    const dInner = Math.min(Math.max(dx, dy), 0);
+    return dOuter + dInner - r;
+  };
+
+  // Exact mode: distance is looked up from a precomputed field instead of a formula.
+  // The rounded box formula is already exact; the squircle is rasterised from the
+  // sign of its formula (with edge coverage) and re-measured.
+  let field: Float32Array | null = null;
+  if (typeof shape === 'object') {
+    field = signedDistanceField(rasterizePath(shape, width, height), width, height);
+  } else if (shape === 'squircle' && (options.sdf ?? 'exact') === 'exact') {
+    const coverage = new Float32Array(size);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        coverage[y * width + x] = Math.max(0, Math.min(1, 0.5 - analyticDist(x, y)));
+      }
+    }
+    field = signedDistanceField(coverage, width, height);
+  }
+
   // --- NOISE GENERATOR (For Turbulence) ---
+  // Seeded shuffle of 0..255, doubled to skip index wrapping
+  const random = mulberry32(options.seed ?? 1);
   const perm = new Uint8Array(512);
-  for(let i=0; i<512; i++) perm[i] = Math.floor(Math.random() * 255);
+  for (let i = 0; i < 256; i++) perm[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = perm[i]; perm[i] = perm[j]; perm[j] = tmp;
+  }
+  for (let i = 0; i < 256; i++) perm[i + 256] = perm[i];
   
   const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
   const lerp = (t: number, a: number, b: number) => a + t * (b - a);
-  const grad = (hash: number, x: number, y: number) => {
+  const grad = (hash: number, x: number, y: number, z: number) => {
     const h = hash & 15;
     const u = h < 8 ? x : y;
-    const v = h < 4 ? y : h === 12 || h === 14 ? x : 0;
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
     return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
   };
-  const noise2d = (x: number, y: number) => {
+  // Improved Perlin noise. The third axis is time, so slices blend smoothly into each other.
+  const noise3d = (x: number, y: number, z: number) => {
     const X = Math.floor(x) & 255;
     const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
     const xf = x - Math.floor(x);
     const yf = y - Math.floor(y);
+    const zf = z - Math.floor(z);
     const u = fade(xf);
     const v = fade(yf);
-    const A = perm[X] + Y, B = perm[X+1] + Y;
-    return lerp(v, lerp(u, grad(perm[A], xf, yf), grad(perm[B], xf-1, yf)),
-                   lerp(u, grad(perm[A+1], xf, yf-1), grad(perm[B+1], xf-1, yf-1)));
+    const w = fade(zf);
+    const A = perm[X] + Y, AA = perm[A] + Z, AB = perm[A+1] + Z;
+    const B = perm[X+1] + Y, BA = perm[B] + Z, BB = perm[B+1] + Z;
+    return lerp(w,
+      lerp(v, lerp(u, grad(perm[AA], xf, yf, zf), grad(perm[BA], xf-1, yf, zf)),
+              lerp(u, grad(perm[AB], xf, yf-1, zf), grad(perm[BB], xf-1, yf-1, zf))),
+      lerp(v, lerp(u, grad(perm[AA+1], xf, yf, zf-1), grad(perm[BA+1], xf-1, yf, zf-1)),
+              lerp(u, grad(perm[AB+1], xf, yf-1, zf-1), grad(perm[BB+1], xf-1, yf-1, zf-1))));
   };
+  const time = options.time ?? 0;
+  const noise2d = (x: number, y: number) => noise3d(x, y, time);
+
+  // Custom profiles are baked into a lookup table once instead of evaluated per pixel
+  const CURVE_SAMPLES = 1024;
+  const curveLut = typeof profile === 'string' ? null : sampleProfileCurve(profile, CURVE_SAMPLES);
 
   // --- STAGE 1 & 2: GEOMETRY & TURBULENCE ---
   const warpScale = 0.02; 
@@ -88,23 +242,10 @@ export function generateGlassMaps(
          ty += n * warpAmp;
       }
 
-      if (shape === 'squircle') {
-          // Squircle SDF Approximation (Superellipse n=4)
-          // |x/a|^4 + |y/b|^4 = 1
-          const nx = (tx - cx) / (width / 2);
-          const ny = (ty - cy) / (height / 2);
-          const val = Math.pow(Math.abs(nx), 4) + Math.pow(Math.abs(ny), 4);
-          
-          // Approx distance from edge: (v^0.25 - 1) * radius_scale
-          // This gives 0 at edge, positive outside, negative inside.
-          dist = (Math.pow(val, 0.25) - 1.0) * (Math.min(width, height) / 2);
+      if (field) {
+          dist = sampleField(field, width, height, tx, ty);
       } else {
-          // Rounded Box SDF
-          const dx = Math.abs(tx - cx) - bx;
-          const dy = Math.abs(ty - cy) - by;
-          const dOuter = Math.sqrt(Math.max(dx, 0) ** 2 + Math.max(dy, 0) ** 2);
-          const dInner = Math.min(Math.max(dx, dy), 0);
-          dist = dOuter + dInner - r; 
+          dist = analyticDist(tx, ty);
       }
 
       // Map Distance to Height Profile
@@ -117,7 +258,13 @@ export function generateGlassMaps(
       else {
         const t = Math.max(0, Math.min(1, -dist / bezel));
         // Shape Profiling
-        if (profile === 'flat') h = t;
+        if (curveLut) {
+          const f = t * (CURVE_SAMPLES - 1);
+          const i0 = Math.floor(f);
+          const i1 = Math.min(CURVE_SAMPLES - 1, i0 + 1);
+          h = curveLut[i0] + (curveLut[i1] - curveLut[i0]) * (f - i0);
+        }
+        else if (profile === 'flat') h = t;
         else if (profile === 'concave') h = 1.0 - Math.pow(t, 2);
         else h = 1 - Math.pow(1 - t, 3); // Convex/Liquid easing
       }
@@ -162,9 +309,15 @@ export function generateGlassMaps(
   }
 
   // --- STAGE 4 & 5: NORMALS & PACKING ---
-  const imgData = ctx.createImageData(width, height);
-  const data = imgData.data;
-  const steepness = 4.0;
+  const data = new Uint8ClampedArray(size * 4);
+  const encoder = createChannelEncoder(options.encoding);
+  const channels = options.opaque ? { ...STANDARD_CHANNELS, mask: undefined } : STANDARD_CHANNELS;
+  if (options.refraction) {
+    const scale = packRefraction(data, heightMap, width, height, options.refraction, encoder.encode, !!options.opaque);
+    return { pixels: data, channels, scale, quantizationError: encoder.error() };
+  }
+
+  const steepness = options.steepness ?? 4.0;
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
@@ -194,13 +347,84 @@ export function generateGlassMaps(
       // Normal X ranges from -1 to 1. 
       // We map -1 to 0, 0 to 128, 1 to 255.
       // 128 (0x80) represents "No Slope" / "Flat" / "No Displacement".
-      data[i] = (nx * 0.5 + 0.5) * 255;     // R
-      data[i + 1] = (ny * 0.5 + 0.5) * 255; // G
+      // The encoder picks the rounding (plain, dithered or companded).
+      const inside = hVal > 0.01;
+      data[i] = encoder.encode(nx * 0.5 + 0.5, x, y, 0, inside);     // R
+      data[i + 1] = encoder.encode(ny * 0.5 + 0.5, x, y, 1, inside); // G
       data[i + 2] = hVal * 255;             // B
-      data[i + 3] = hVal > 0.01 ? 255 : 0;  // A (Hard Mask based on height)
+      data[i + 3] = inside || options.opaque ? 255 : 0; // A (Hard Mask based on height)
+    }
+  }
+
+  return { pixels: data, channels, quantizationError: encoder.error() };
+}
+
+/**
+ * Physical Stage 4 & 5: Snell's law displacement.
+ * The height map becomes real glass (h = 1 is `thickness` pixels tall), each pixel's
+ * refracted ray is traced down to the backdrop, and the offsets are normalised so the
+ * largest one uses the full channel range. Returns the scale that undoes that.
+ */
+function packRefraction(
+  data: Uint8ClampedArray,
+  heightMap: Float32Array,
+  width: number,
+  height: number,
+  refraction: GlassRefraction,
+  encode: ReturnType<typeof createChannelEncoder>['encode'],
+  opaque: boolean
+) {
+  const size = width * height;
+  const ior = resolveIor(refraction.ior);
+  const thickness = Math.max(0, refraction.thickness);
+  const offsetX = new Float32Array(size);
+  const offsetY = new Float32Array(size);
+  const offset: [number, number] = [0, 0];
+  let maxOffset = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const x0 = Math.max(0, x - 1);
+      const x1 = Math.min(width - 1, x + 1);
+      const y0 = Math.max(0, y - 1);
+      const y1 = Math.min(height - 1, y + 1);
+
+      // Surface slope in pixels per pixel (central differences)
+      const gx = (heightMap[y * width + x1] - heightMap[y * width + x0]) / Math.max(1, x1 - x0) * thickness;
+      const gy = (heightMap[y1 * width + x] - heightMap[y0 * width + x]) / Math.max(1, y1 - y0) * thickness;
+
+      refractOffset(gx, gy, heightMap[idx] * thickness, ior, offset);
+      offsetX[idx] = offset[0];
+      offsetY[idx] = offset[1];
+      maxOffset = Math.max(maxOffset, Math.abs(offset[0]), Math.abs(offset[1]));
     }
   }
 
-  ctx.putImageData(imgData, 0, 0);
-  return { surfaceUrl: canvas.toDataURL('image/png') };
+  // feDisplacementMap moves by scale * (C - 0.5), so C = 0.5 + offset / scale
+  const scale = maxOffset * 2;
+  for (let idx = 0; idx < size; idx++) {
+    const i = idx * 4;
+    const x = idx % width;
+    const y = (idx - x) / width;
+    const hVal = heightMap[idx];
+    const inside = hVal > 0.01;
+    data[i] = encode(scale > 0 ? 0.5 + offsetX[idx] / scale : 0.5, x, y, 0, inside);
+    data[i + 1] = encode(scale > 0 ? 0.5 + offsetY[idx] / scale : 0.5, x, y, 1, inside);
+    data[i + 2] = hVal * 255;
+    data[i + 3] = inside || opaque ? 255 : 0;
+  }
+  return scale;
+}
+
+/** Small, fast 32-bit seeded PRNG. Returns floats in [0, 1). */
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
@@ -0,0 +1,91 @@
+/**
+ * Glass Lighting
+ * --------------
+ * Light sources for the specular/diffuse passes in GlassSVGDefinitions.
+ * Each light becomes its own feSpecularLighting + feDiffuseLighting pair
+ * (SVG allows one light source per primitive) and the results are summed.
+ *
+ * Positions are in the filter's user space: pixels from the element's top-left,
+ * z pointing out of the screen. Distant lights need no position, so they're
+ * what the environment presets use.
+ */
+
+interface GlassLightBase {
+  /** Any CSS colour. Default white */
+  color?: string;
+  /** Multiplies the specular and diffuse constants for this light. Default 1 */
+  intensity?: number;
+}
+
+export interface GlassPointLight extends GlassLightBase {
+  type: 'point';
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface GlassDistantLight extends GlassLightBase {
+  type: 'distant';
+  /** Degrees clockwise from +x in screen space (so 225 = from the top-left) */
+  azimuth: number;
+  /** Degrees above the surface plane */
+  elevation: number;
+}
+
+export interface GlassSpotLight extends GlassLightBase {
+  type: 'spot';
+  x: number;
+  y: number;
+  z: number;
+  pointsAtX: number;
+  pointsAtY: number;
+  pointsAtZ?: number;
+  /** Falloff away from the spot's axis. Default 1 */
+  focus?: number;
+  /** Hard cut-off half-angle in degrees */
+  coneAngle?: number;
+}
+
+export type GlassLight = GlassPointLight | GlassDistantLight | GlassSpotLight;
+
+export interface GlassEnvironment {
+  lights: GlassLight[];
+  specularExponent?: number;
+  diffuseStrength?: number;
+  shadowStrength?: number;
+}
+
+export const GlassEnvironments = {
+  // Soft white key from the top-left, cool fill from the opposite side
+  studio: {
+    lights: [
+      { type: 'distant', azimuth: 225, elevation: 45, color: '#ffffff', intensity: 1 },
+      { type: 'distant', azimuth: 45, elevation: 30, color: '#cfe3ff', intensity: 0.35 },
+    ],
+    specularExponent: 40,
+    diffuseStrength: 0.5,
+    shadowStrength: 0.6,
+  },
+  // Low warm sun grazing from the left, violet sky bounce from above
+  sunset: {
+    lights: [
+      { type: 'distant', azimuth: 200, elevation: 15, color: '#ff9a4d', intensity: 1.2 },
+      { type: 'distant', azimuth: 300, elevation: 60, color: '#9b7bff', intensity: 0.4 },
+    ],
+    specularExponent: 25,
+    diffuseStrength: 0.6,
+    shadowStrength: 0.45,
+  },
+  // Faint blue moonlight, tight highlights, deep shadows
+  night: {
+    lights: [
+      { type: 'distant', azimuth: 250, elevation: 60, color: '#8fb3ff', intensity: 0.6 },
+      { type: 'distant', azimuth: 90, elevation: 20, color: '#3b4a7a', intensity: 0.25 },
+    ],
+    specularExponent: 80,
+    diffuseStrength: 0.35,
+    shadowStrength: 0.8,
+  },
+} satisfies Record<string, GlassEnvironment>;
+
+export type GlassEnvironmentName = keyof typeof GlassEnvironments;
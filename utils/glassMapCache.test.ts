@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { GlassMaps } from './glassGenerator';
+import { STANDARD_CHANNELS } from './mapChannels';
+import {
+  acquireCachedMap, releaseGlassMap, glassMapKey, setGlassMapCacheBudget, getGlassMapCacheStats,
+} from './glassMapCache';
+import { isGlassMapAbort } from './requestGlassMaps';
+
+const maps = (name: string): GlassMaps => ({ surfaceUrl: `data:${name}`, channels: STANDARD_CHANNELS });
+
+// A build that only settles when the test says so
+const deferred = () => {
+  let resolve!: (value: GlassMaps) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<GlassMaps>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+let owners: string[] = [];
+const owner = (name: string) => {
+  owners.push(name);
+  return name;
+};
+
+beforeEach(() => {
+  // The cache is module state: release everything the last test held and flush it
+  owners.forEach(releaseGlassMap);
+  owners = [];
+  setGlassMapCacheBudget(0);
+  setGlassMapCacheBudget(64 * 1024 * 1024);
+});
+
+describe('glassMapKey', () => {
+  it('is stable for equal options and differs for different ones', () => {
+    expect(glassMapKey('raster-sdf', { width: 10, radius: 4 })).toBe(glassMapKey('raster-sdf', { width: 10, radius: 4 }));
+    expect(glassMapKey('raster-sdf', { width: 10 })).not.toBe(glassMapKey('raster-sdf', { width: 11 }));
+    expect(glassMapKey('raster-sdf', { width: 10 })).not.toBe(glassMapKey('frost', { width: 10 }));
+  });
+
+  it('tells distinct functions apart', () => {
+    const a = (t: number) => t;
+    const b = (t: number) => t;
+    expect(glassMapKey('raster-sdf', { profile: a })).toBe(glassMapKey('raster-sdf', { profile: a }));
+    expect(glassMapKey('raster-sdf', { profile: a })).not.toBe(glassMapKey('raster-sdf', { profile: b }));
+  });
+});
+
+describe('acquireCachedMap', () => {
+  it('builds each key once and shares it between owners', async () => {
+    let builds = 0;
+    const build = () => {
+      builds++;
+      return Promise.resolve(maps('shared'));
+    };
+    const [a, b] = await Promise.all([
+      acquireCachedMap(owner('a'), 'k', 100, build),
+      acquireCachedMap(owner('b'), 'k', 100, build),
+    ]);
+    expect(builds).toBe(1);
+    expect(a).toBe(b);
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 1, idle: 0, bytes: 100 });
+  });
+
+  it('rejects with an AbortError when the owner asks for something newer', async () => {
+    const first = deferred();
+    const stale = acquireCachedMap(owner('a'), 'old', 100, () => first.promise);
+    const fresh = acquireCachedMap('a', 'new', 100, () => Promise.resolve(maps('new')));
+    first.resolve(maps('old'));
+
+    await expect(stale).rejects.toSatisfy(isGlassMapAbort);
+    await expect(fresh).resolves.toEqual(maps('new'));
+  });
+
+  it('cancels a build nobody is waiting for any more', async () => {
+    let cancelled = 0;
+    const pending = deferred();
+    // Like cancelGlassMaps: the dropped build rejects with an AbortError
+    const cancel = () => {
+      cancelled++;
+      pending.reject(new DOMException('Superseded', 'AbortError'));
+    };
+    const stale = acquireCachedMap(owner('a'), 'old', 100, () => pending.promise, cancel);
+    await acquireCachedMap('a', 'new', 100, () => Promise.resolve(maps('new')));
+
+    expect(cancelled).toBe(1);
+    await expect(stale).rejects.toSatisfy(isGlassMapAbort);
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 1 });
+  });
+
+  it('rebuilds a pending key whose build was aborted', async () => {
+    const aborted = deferred();
+    const first = acquireCachedMap(owner('a'), 'k', 100, () => aborted.promise);
+    // Aborted from outside the cache, e.g. cancelGlassMaps on the shared queue
+    aborted.reject(new DOMException('Superseded', 'AbortError'));
+    await expect(first).rejects.toSatisfy(isGlassMapAbort);
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 0 });
+
+    await expect(acquireCachedMap('a', 'k', 100, () => Promise.resolve(maps('k')))).resolves.toEqual(maps('k'));
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 1, idle: 0 });
+  });
+
+  it('keeps released maps warm until the budget is exceeded', async () => {
+    await acquireCachedMap(owner('a'), 'k', 100, () => Promise.resolve(maps('k')));
+    releaseGlassMap('a');
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 1, idle: 1 });
+
+    // Warm hit: no rebuild
+    let builds = 0;
+    await acquireCachedMap(owner('b'), 'k', 100, () => {
+      builds++;
+      return Promise.resolve(maps('k'));
+    });
+    expect(builds).toBe(0);
+
+    releaseGlassMap('b');
+    setGlassMapCacheBudget(50);
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('evicts the least recently used idle map first', async () => {
+    setGlassMapCacheBudget(250);
+    for (const key of ['a', 'b', 'c']) {
+      await acquireCachedMap(owner(key), key, 100, () => Promise.resolve(maps(key)));
+    }
+    releaseGlassMap('a');
+    releaseGlassMap('b');
+    // c is held, a and b are idle: only a (oldest) has to go
+    expect(getGlassMapCacheStats()).toMatchObject({ entries: 2, bytes: 200 });
+
+    let rebuilt = '';
+    await acquireCachedMap(owner('d'), 'b', 100, () => {
+      rebuilt = 'b';
+      return Promise.resolve(maps('b'));
+    });
+    expect(rebuilt).toBe('');
+  });
+});
@@ -0,0 +1,172 @@
+import type { GlassMaps } from './glassGenerator';
+
+/**
+ * Shared Glass Map Cache
+ * ----------------------
+ * Module-level LRU so elements with identical geometry share one generated map.
+ *
+ * - Entries are keyed on every generator option and reference counted.
+ * - Each owner (an element's filter id) holds at most one displayed map plus one
+ *   pending map. The displayed map stays retained until its replacement is ready.
+ * - Unreferenced entries stay warm until the memory budget is exceeded, then the
+ *   least recently used ones are evicted and their blob: URLs revoked.
+ */
+
+interface CacheEntry {
+  maps: GlassMaps | null; // null while the build is in flight
+  promise: Promise<GlassMaps>;
+  refs: number;
+  bytes: number;
+  cancel?: () => void;
+}
+
+interface OwnerSlot {
+  current?: string;
+  pending?: string;
+}
+
+// Map preserves insertion order: first entry = least recently used
+const entries = new Map<string, CacheEntry>();
+const owners = new Map<string, OwnerSlot>();
+let budget = 64 * 1024 * 1024; // Decoded RGBA bytes
+let used = 0;
+
+const abortError = () => new DOMException('Superseded by a newer glass map request', 'AbortError');
+
+const revoke = (maps: GlassMaps | null) => {
+  if (maps?.surfaceUrl.startsWith('blob:')) URL.revokeObjectURL(maps.surfaceUrl);
+};
+
+const drop = (key: string, entry: CacheEntry) => {
+  entries.delete(key);
+  used -= entry.bytes;
+  revoke(entry.maps);
+};
+
+const trim = () => {
+  for (const [key, entry] of entries) {
+    if (used <= budget) break;
+    if (entry.refs === 0 && entry.maps !== null) drop(key, entry);
+  }
+};
+
+const retain = (key: string, bytes: number, build: () => Promise<GlassMaps>, cancel?: () => void) => {
+  let entry = entries.get(key);
+  if (entry) {
+    // Touch: move to the most recently used end
+    entries.delete(key);
+    entries.set(key, entry);
+  } else {
+    const promise = build();
+    const created: CacheEntry = { maps: null, promise, refs: 0, bytes, cancel };
+    entry = created;
+    entries.set(key, created);
+    used += bytes;
+
+    promise.then(
+      (maps) => {
+        if (entries.get(key) !== created) return revoke(maps);
+        created.maps = maps;
+        trim();
+      },
+      () => {
+        if (entries.get(key) === created) drop(key, created);
+      }
+    );
+  }
+  entry.refs++;
+  return entry;
+};
+
+const unref = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entry.refs--;
+  if (entry.refs > 0) return;
+
+  if (entry.maps === null) {
+    // Nobody wants it any more: stop the build instead of caching it
+    entry.cancel?.();
+    drop(key, entry);
+  } else {
+    trim();
+  }
+};
+
+// Path2D serialises to {} and functions vanish, so each instance gets its own identity in keys
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+const identity = (kind: string, value: object) => {
+  if (!objectIds.has(value)) objectIds.set(value, nextObjectId++);
+  return `${kind}#${objectIds.get(value)}`;
+};
+const keyReplacer = (_: string, value: unknown) => {
+  if (typeof Path2D !== 'undefined' && value instanceof Path2D) return identity('Path2D', value);
+  if (typeof value === 'function') return identity('fn', value);
+  return value;
+};
+
+/** Builds a cache key from a map kind and its generator options. */
+export const glassMapKey = (kind: string, options: unknown) => `${kind}:${JSON.stringify(options, keyReplacer)}`;
+
+/**
+ * Points `owner` at the map for `key`, building it on a miss.
+ * Resolves with the maps, or rejects with an 'AbortError' if the owner asks
+ * for a different key (or is released) before this one is ready.
+ */
+export function acquireCachedMap(
+  owner: string,
+  key: string,
+  bytes: number,
+  build: () => Promise<GlassMaps>,
+  cancel?: () => void
+): Promise<GlassMaps> {
+  let slot = owners.get(owner);
+  if (!slot) owners.set(owner, (slot = {}));
+
+  const current = slot.current && entries.get(slot.current);
+  if (slot.current === key && current && current.maps !== null) {
+    if (slot.pending) unref(slot.pending);
+    slot.pending = undefined;
+    return Promise.resolve(current.maps);
+  }
+
+  // A pending build that was aborted has already dropped its entry (and this
+  // slot's ref with it), so that case starts a new build too
+  let entry = slot.pending === key ? entries.get(key) : undefined;
+  if (!entry) {
+    if (slot.pending) unref(slot.pending);
+    entry = retain(key, bytes, build, cancel);
+    slot.pending = key;
+  }
+
+  const ownerSlot = slot;
+  return entry.promise.then((maps) => {
+    if (owners.get(owner) !== ownerSlot || ownerSlot.pending !== key) throw abortError();
+    if (ownerSlot.current) unref(ownerSlot.current);
+    ownerSlot.current = key;
+    ownerSlot.pending = undefined;
+    return maps;
+  });
+}
+
+/** Lets go of everything `owner` holds. Call on unmount. */
+export function releaseGlassMap(owner: string) {
+  const slot = owners.get(owner);
+  if (!slot) return;
+  owners.delete(owner);
+  if (slot.pending) unref(slot.pending);
+  if (slot.current) unref(slot.current);
+}
+
+/** Sets the memory budget (decoded RGBA bytes) for idle cached maps. */
+export function setGlassMapCacheBudget(bytes: number) {
+  budget = Math.max(0, bytes);
+  trim();
+}
+
+export function getGlassMapCacheStats() {
+  let idle = 0;
+  entries.forEach((entry) => { if (entry.refs === 0) idle++; });
+  return { entries: entries.size, idle, bytes: used, budget };
+}
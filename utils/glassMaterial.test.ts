@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { GlassPathPresets } from './glassShapes';
+import {
+  GlassMaterial, GlassMaterialPresets, GLASS_MATERIAL_VERSION, DEFAULT_GLASS_MATERIAL,
+  createGlassMaterial, serializeGlassMaterial, deserializeGlassMaterial, isGlassMaterialError, glassMaterialProps,
+} from './glassMaterial';
+
+// The issues a deserialise attempt reports, or [] if it loads
+const issuesFor = (input: unknown) => {
+  try {
+    deserializeGlassMaterial(input);
+    return [];
+  } catch (err) {
+    if (!isGlassMaterialError(err)) throw err;
+    return err.issues;
+  }
+};
+
+describe('serializeGlassMaterial / deserializeGlassMaterial', () => {
+  it('round-trips every preset exactly', () => {
+    Object.values(GlassMaterialPresets).forEach((material) => {
+      expect(deserializeGlassMaterial(serializeGlassMaterial(material))).toEqual(material);
+    });
+  });
+
+  it('fills omitted sections and fields from the defaults', () => {
+    const material = deserializeGlassMaterial({ version: GLASS_MATERIAL_VERSION, name: 'Partial', tint: { density: 0.4 } });
+    expect(material.tint).toEqual({ color: DEFAULT_GLASS_MATERIAL.tint.color, density: 0.4 });
+    expect(material.geometry).toEqual(DEFAULT_GLASS_MATERIAL.geometry);
+  });
+
+  it('keeps optional fields that were set', () => {
+    const material = createGlassMaterial('Lit', {
+      geometry: { shape: { path: 'M0 0 L10 0 L10 10 Z', viewBox: [0, 0, 10, 10], fit: 'fill' } },
+      lighting: {
+        lights: [
+          { type: 'point', x: 10, y: 20, z: 30 },
+          { type: 'distant', azimuth: 225, elevation: 45, color: '#fff', intensity: 0.5 },
+          { type: 'spot', x: 0, y: 0, z: 100, pointsAtX: 50, pointsAtY: 50, coneAngle: 30 },
+        ],
+        reflection: 0,
+      },
+    });
+    expect(deserializeGlassMaterial(serializeGlassMaterial(material))).toEqual(material);
+  });
+});
+
+describe('legacy control state (version 0)', () => {
+  // MetaGlassApp's GlassState, as the demo keeps it
+  const metaGlass = {
+    bezel: 28, intensity: 40, blur: 3, radius: 48, debug: 'off', shape: 'path', pathPreset: 'pill',
+    squircleExponent: 5, squircleMode: 'corners', profile: 'custom', curve: [0.4, 0, 0.2, 1], seed: 7,
+    animate: 'off', refraction: 'physical', material: 'flint', thickness: 36, encoding: 'dither',
+    reflection: 0.2, highlight: 0.7, tint: '#3366ff', tintDensity: 0.5,
+  };
+  // flat.tsx's GlassState
+  const flat = {
+    bezel: 40, intensity: 30, chromaticDelta: 8, frost: 6, frostPattern: 'sandblast', frostMask: 'edge',
+    frostEtch: 'ring', highlight: 0.6, radius: 80, dropShadow: 0.6, volumeShadow: 0.5, reflection: 0.3, debug: 'off',
+  };
+
+  it('migrates MetaGlassApp state field by field', () => {
+    const material = deserializeGlassMaterial(JSON.stringify({ ...metaGlass, name: 'Meta' }));
+    expect(material).toEqual(createGlassMaterial('Meta', {
+      geometry: {
+        shape: GlassPathPresets.pill, radius: 48, bezel: 28, profile: { type: 'cubic-bezier', points: [0.4, 0, 0.2, 1] },
+        squircleExponent: 5, squircleMode: 'corners',
+      },
+      refraction: { scale: 40, ior: 'flint', thickness: 36, blur: 3, encoding: 'dither' },
+      highlight: { strength: 0.7 },
+      tint: { color: '#3366ff', density: 0.5 },
+      lighting: { reflection: 0.2 },
+    }));
+  });
+
+  it('migrates flat.tsx state, frost and shadows included', () => {
+    const material = deserializeGlassMaterial(flat);
+    expect(material).toEqual(createGlassMaterial(DEFAULT_GLASS_MATERIAL.name, {
+      geometry: { radius: 80, bezel: 40 },
+      refraction: { scale: 30 },
+      dispersion: { delta: 8 },
+      frost: { amount: 6, pattern: 'sandblast', mask: 'edge' },
+      highlight: { strength: 0.6 },
+      shadows: { drop: 0.6, volume: 0.5 },
+      lighting: { reflection: 0.3 },
+    }));
+  });
+
+  it('round-trips through the current format', () => {
+    const material = deserializeGlassMaterial(metaGlass);
+    expect(material.version).toBe(GLASS_MATERIAL_VERSION);
+    expect(deserializeGlassMaterial(serializeGlassMaterial(material))).toEqual(material);
+  });
+
+  it('ignores the physical refraction fields in artistic mode', () => {
+    const material = deserializeGlassMaterial({ ...metaGlass, refraction: 'artistic' });
+    expect(material.refraction.ior).toBeUndefined();
+    expect(material.refraction.thickness).toBeUndefined();
+  });
+
+  it('rejects unknown path presets instead of guessing a shape', () => {
+    expect(issuesFor({ ...metaGlass, pathPreset: 'hexagon' })[0]).toMatch(/^pathPreset: expected one of /);
+  });
+
+  it('reports bad legacy values under their migrated paths', () => {
+    expect(issuesFor({ ...flat, frost: 'lots' })).toEqual(['frost.amount: expected a number, got "lots"']);
+  });
+});
+
+describe('deserializeGlassMaterial errors', () => {
+  it('reports bad JSON and non-objects', () => {
+    expect(issuesFor('{ nope')[0]).toMatch(/^JSON: /);
+    expect(issuesFor('[1, 2]')).toEqual(['expected a JSON object']);
+  });
+
+  it('requires a version this build understands', () => {
+    expect(issuesFor({ version: 'one' })[0]).toMatch(/^version: expected a version number/);
+    expect(issuesFor({ version: GLASS_MATERIAL_VERSION + 1 })[0]).toMatch(/is newer than this build supports/);
+    // Sections without a version: a material that lost its version, not legacy state
+    expect(issuesFor({ geometry: { radius: 10 } })).toEqual(['version: missing']);
+  });
+
+  it('reports every problem with its field path', () => {
+    const issues = issuesFor({
+      version: GLASS_MATERIAL_VERSION,
+      geometry: { radius: -4, bezell: 3, shape: { path: 'M0 0', viewBox: [0, 0, 10] } },
+      frost: { mask: { type: 'gradient', from: 'top' } },
+      tint: 'red',
+    });
+    expect(issues).toEqual([
+      'geometry.bezell: unknown field',
+      'geometry.shape.viewBox: expected four numbers',
+      'geometry.radius: -4 is outside 0-2000',
+      'frost.mask.from: expected a number, got "top"',
+      'tint: expected an object',
+    ]);
+  });
+
+  it('checks profile points pairwise', () => {
+    const issues = issuesFor({
+      version: GLASS_MATERIAL_VERSION,
+      geometry: { profile: { type: 'points', points: [[0, 0], [0.5, null], [1]] } },
+    });
+    expect(issues).toEqual([
+      'geometry.profile.points[1]: expected a [t, h] pair of numbers',
+      'geometry.profile.points[2]: expected a [t, h] pair of numbers',
+    ]);
+  });
+
+  it('checks each light against the fields its type needs', () => {
+    const issues = issuesFor({
+      version: GLASS_MATERIAL_VERSION,
+      lighting: {
+        lights: [
+          { type: 'point', x: 1, y: 2 },
+          { type: 'distant', azimuth: 0, elevation: 45, x: 3 },
+          { type: 'spot', x: 0, y: 0, z: 1, pointsAtX: 0, coneAngle: 270 },
+          { type: 'laser' },
+          'sun',
+        ],
+      },
+    });
+    expect(issues).toEqual([
+      'lighting.lights[0].z: expected a number, got undefined',
+      'lighting.lights[1].x: unknown field',
+      'lighting.lights[2].pointsAtY: expected a number, got undefined',
+      'lighting.lights[2].coneAngle: 270 is outside 0-180',
+      'lighting.lights[3].type: expected one of point, distant, spot',
+      'lighting.lights[4]: expected an object',
+    ]);
+  });
+
+  it('throws a GlassMaterialError', () => {
+    let caught: unknown;
+    try {
+      deserializeGlassMaterial('{"version": 0.5}');
+    } catch (err) {
+      caught = err;
+    }
+    expect(isGlassMaterialError(caught)).toBe(true);
+    expect((caught as Error).message).toMatch(/^Invalid glass material:/);
+  });
+});
+
+describe('serializeGlassMaterial errors', () => {
+  it('reports missing sections instead of crashing', () => {
+    const broken = { version: GLASS_MATERIAL_VERSION, name: 'Broken' } as unknown as GlassMaterial;
+    expect(() => serializeGlassMaterial(broken)).toThrow(/geometry: expected an object/);
+  });
+});
+
+describe('glassMaterialProps', () => {
+  it('maps a material onto GlassBubble props', () => {
+    const props = glassMaterialProps(GlassMaterialPresets.sapphire);
+    expect(props).toMatchObject({ ior: 'sapphire', intensity: 30, dispersion: 4, tintDensity: 0.8, rimColor: '#cfe3ff' });
+    expect(glassMaterialProps(GlassMaterialPresets.clear).tint).toBeUndefined();
+    expect(glassMaterialProps(GlassMaterialPresets.crystal).dispersion).toEqual({ delta: 0, abbe: 40 });
+  });
+});
@@ -0,0 +1,571 @@
+import type { GlassShapeProfile, GlassSquircleMode, GlassMapEncoding } from './glassGenerator';
+import type { GlassPathShape } from './distanceField';
+import type { GlassProfileCurve } from './profileCurves';
+import type { GlassFrostPattern, GlassFrostMask } from './frostGenerator';
+import { GlassIorPreset, GlassIorPresets, IOR_MIN, IOR_MAX } from './refraction';
+import { GlassLight, GlassEnvironmentName, GlassEnvironments } from './glassLighting';
+import { GlassTintPresets } from './glassTint';
+import { GlassPathPresets, GlassPathPresetName } from './glassShapes';
+
+/**
+ * Glass Materials
+ * ---------------
+ * Everything that makes a glass look the way it does, as one versioned,
+ * JSON-safe object: designers hand over a `.json` file instead of slider
+ * screenshots.
+ *
+ * `deserializeGlassMaterial` fills omitted sections and fields from the
+ * defaults, then validates every field, reporting problems by path
+ * (`frost.mask.width: expected a number`). Unknown fields are reported too, so
+ * a misspelt key doesn't silently fall back to its default.
+ *
+ * Objects without a `version` are the flat control state the demos keep
+ * (`LegacyGlassState`) and are migrated as version 0. Bump
+ * GLASS_MATERIAL_VERSION for any breaking change and add the step from the
+ * previous version to `migrations`.
+ */
+
+export const GLASS_MATERIAL_VERSION = 1;
+
+/** A path outline that survives JSON: path data only, no Path2D. */
+export type GlassMaterialPath = Omit<GlassPathShape, 'path'> & { path: string };
+
+/** Profile curves without the function form. */
+export type GlassMaterialCurve = Exclude<GlassProfileCurve, (t: number) => number>;
+
+export interface GlassMaterial {
+  version: typeof GLASS_MATERIAL_VERSION;
+  name: string;
+  geometry: {
+    shape: 'rect' | 'squircle' | GlassMaterialPath;
+    /** Corner radius in px */
+    radius: number;
+    /** Bevelled edge width in px */
+    bezel: number;
+    profile: GlassShapeProfile | GlassMaterialCurve;
+    squircleExponent: number;
+    squircleMode: GlassSquircleMode;
+  };
+  refraction: {
+    /** Displacement strength in px. Ignored with `ior` */
+    scale: number;
+    /** Physical refraction: index of refraction or a named material */
+    ior?: number | GlassIorPreset;
+    /** Plateau thickness in px for `ior`. Defaults to the bezel */
+    thickness?: number;
+    /** Backdrop blur in px */
+    blur: number;
+    encoding: GlassMapEncoding;
+  };
+  dispersion: {
+    /** Red/blue scale offset in px */
+    delta: number;
+    abbe?: number;
+  };
+  frost: {
+    /** Scatter and blur in px. 0 = clear */
+    amount: number;
+    pattern: GlassFrostPattern;
+    mask: GlassFrostMask;
+    /** Grain feature size in px */
+    grain: number;
+  };
+  highlight: {
+    /** Rim light strength (0-1) */
+    strength: number;
+    color: string;
+  };
+  shadows: {
+    /** Drop shadow under the glass (0-1) */
+    drop: number;
+    /** Inner volume shading along the bezel (0-1) */
+    volume: number;
+  };
+  tint: {
+    /** Hex colour, or a GlassTintPresets name */
+    color: string;
+    /** Optical depth. 0 = clear */
+    density: number;
+  };
+  lighting: {
+    environment?: GlassEnvironmentName;
+    /** Explicit lights; override the environment's */
+    lights?: GlassLight[];
+    /** Environment reflection strength (0-1) */
+    reflection: number;
+  };
+}
+
+export interface GlassMaterialError extends Error {
+  /** One line per problem, prefixed with the field path */
+  issues: string[];
+}
+
+const materialError = (issues: string[]): GlassMaterialError =>
+  Object.assign(new Error(`Invalid glass material:\n  ${issues.join('\n  ')}`), { name: 'GlassMaterialError', issues });
+
+export const isGlassMaterialError = (err: unknown): err is GlassMaterialError =>
+  err instanceof Error && err.name === 'GlassMaterialError';
+
+export const DEFAULT_GLASS_MATERIAL: GlassMaterial = {
+  version: GLASS_MATERIAL_VERSION,
+  name: 'Untitled',
+  geometry: { shape: 'rect', radius: 32, bezel: 24, profile: 'convex', squircleExponent: 4, squircleMode: 'full' },
+  refraction: { scale: 30, blur: 2, encoding: 'linear' },
+  dispersion: { delta: 0 },
+  frost: { amount: 0, pattern: 'grain', mask: 'uniform', grain: 2 },
+  highlight: { strength: 0.5, color: '#ffffff' },
+  shadows: { drop: 0.5, volume: 0.5 },
+  tint: { color: '#ffffff', density: 0 },
+  lighting: { reflection: 0 },
+};
+
+type Sections = Omit<GlassMaterial, 'version' | 'name'>;
+
+/** Fills a partial material from the defaults, one section at a time. */
+export function createGlassMaterial(
+  name: string,
+  sections: { [K in keyof Sections]?: Partial<Sections[K]> } = {}
+): GlassMaterial {
+  const material = { ...DEFAULT_GLASS_MATERIAL, name } as Record<string, unknown>;
+  (Object.keys(sections) as (keyof Sections)[]).forEach((key) => {
+    material[key] = { ...DEFAULT_GLASS_MATERIAL[key], ...sections[key] };
+  });
+  return material as unknown as GlassMaterial;
+}
+
+/** Built-in looks, ready to serialise or hand to `glassMaterialProps`. */
+export const GlassMaterialPresets = {
+  clear: createGlassMaterial('Clear', {
+    refraction: { scale: 24, blur: 1 },
+    highlight: { strength: 0.4 },
+  }),
+  crystal: createGlassMaterial('Crystal', {
+    geometry: { bezel: 32 },
+    refraction: { ior: 'crown', blur: 0, encoding: 'dither' },
+    dispersion: { delta: 0, abbe: 40 },
+    highlight: { strength: 0.8 },
+    lighting: { environment: 'studio', reflection: 0.3 },
+  }),
+  frosted: createGlassMaterial('Frosted', {
+    refraction: { scale: 12, blur: 0 },
+    frost: { amount: 8, pattern: 'grain', grain: 2 },
+    highlight: { strength: 0.3 },
+    tint: { color: GlassTintPresets.smoke, density: 0.3 },
+  }),
+  sandblasted: createGlassMaterial('Sandblasted', {
+    refraction: { scale: 16, blur: 0 },
+    frost: { amount: 10, pattern: 'sandblast', mask: { type: 'edge', width: 40 } },
+    highlight: { strength: 0.4 },
+  }),
+  sapphire: createGlassMaterial('Sapphire', {
+    geometry: { profile: 'liquid', bezel: 28 },
+    refraction: { ior: 'sapphire', encoding: 'dither' },
+    dispersion: { delta: 4 },
+    tint: { color: GlassTintPresets.azure, density: 0.8 },
+    highlight: { strength: 0.7, color: '#cfe3ff' },
+    lighting: { environment: 'night', reflection: 0.2 },
+  }),
+  amber: createGlassMaterial('Amber', {
+    geometry: { shape: 'squircle', squircleExponent: 5 },
+    refraction: { scale: 40, blur: 2 },
+    tint: { color: GlassTintPresets.amber, density: 1 },
+    lighting: { environment: 'sunset', reflection: 0.15 },
+  }),
+} satisfies Record<string, GlassMaterial>;
+
+export type GlassMaterialPresetName = keyof typeof GlassMaterialPresets;
+
+// -----------------------------------------------------------------------------
+// Migration
+// -----------------------------------------------------------------------------
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Version 0: the demos' control state (`GlassState` in MetaGlassApp and
+ * flat.tsx), before materials had sections. Keys with no place in a material
+ * (`debug`, `seed`, `animate`, `frostEtch`) are ignored.
+ */
+export interface LegacyGlassState {
+  name?: string;
+  shape?: 'rect' | 'squircle' | 'path';
+  /** Only read when `shape` is 'path' */
+  pathPreset?: GlassPathPresetName;
+  radius?: number;
+  bezel?: number;
+  profile?: GlassShapeProfile | 'custom';
+  /** cubic-bezier points, only read when `profile` is 'custom' */
+  curve?: [number, number, number, number];
+  squircleExponent?: number;
+  squircleMode?: GlassSquircleMode;
+  /** Displacement strength in px */
+  intensity?: number;
+  refraction?: 'artistic' | 'physical';
+  /** Only read when `refraction` is 'physical' */
+  material?: GlassIorPreset;
+  thickness?: number;
+  blur?: number;
+  encoding?: GlassMapEncoding;
+  chromaticDelta?: number;
+  frost?: number;
+  frostPattern?: GlassFrostPattern;
+  frostMask?: 'uniform' | 'edge' | 'gradient';
+  highlight?: number;
+  dropShadow?: number;
+  volumeShadow?: number;
+  tint?: string;
+  tintDensity?: number;
+  reflection?: number;
+}
+
+const isPathPreset = (value: unknown): value is GlassPathPresetName =>
+  typeof value === 'string' && value in GlassPathPresets;
+
+/**
+ * Each entry upgrades from its key's version to the next. Values are copied
+ * as they are; validation after the last step reports bad ones.
+ */
+const migrations: Record<number, (data: Fields) => Fields> = {
+  0: (legacy) => {
+    let shape = legacy.shape;
+    if (shape === 'path') {
+      if (!isPathPreset(legacy.pathPreset)) {
+        throw materialError([`pathPreset: expected one of ${Object.keys(GlassPathPresets).join(', ')}`]);
+      }
+      shape = GlassPathPresets[legacy.pathPreset];
+    }
+    const physical = legacy.refraction === 'physical';
+
+    return {
+      version: 1,
+      name: legacy.name,
+      geometry: {
+        shape,
+        radius: legacy.radius,
+        bezel: legacy.bezel,
+        profile: legacy.profile === 'custom' ? { type: 'cubic-bezier', points: legacy.curve } : legacy.profile,
+        squircleExponent: legacy.squircleExponent,
+        squircleMode: legacy.squircleMode,
+      },
+      refraction: {
+        scale: legacy.intensity,
+        ior: physical ? legacy.material : undefined,
+        thickness: physical ? legacy.thickness : undefined,
+        blur: legacy.blur,
+        encoding: legacy.encoding,
+      },
+      dispersion: { delta: legacy.chromaticDelta },
+      frost: { amount: legacy.frost, pattern: legacy.frostPattern, mask: legacy.frostMask },
+      highlight: { strength: legacy.highlight },
+      shadows: { drop: legacy.dropShadow, volume: legacy.volumeShadow },
+      tint: { color: legacy.tint, density: legacy.tintDensity },
+      lighting: { reflection: legacy.reflection },
+    };
+  },
+};
+
+function migrate(data: Fields): Fields {
+  // A sectioned object without a version is a material missing its version,
+  // not legacy state: migrating it would silently drop every section
+  if (data.version === undefined && SECTIONS.some((key) => isObject(data[key]))) {
+    throw materialError(['version: missing']);
+  }
+  const version = data.version ?? 0;
+  if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 0) {
+    throw materialError([`version: expected a version number, got ${JSON.stringify(version)}`]);
+  }
+  if (version > GLASS_MATERIAL_VERSION) {
+    throw materialError([`version: ${version} is newer than this build supports (${GLASS_MATERIAL_VERSION})`]);
+  }
+  let current = data;
+  for (let from = version; from < GLASS_MATERIAL_VERSION; from++) {
+    const step = migrations[from];
+    if (!step) throw materialError([`version: no migration from ${from}`]);
+    current = step(current);
+  }
+  return current;
+}
+
+// Drops undefined so the defaults show through
+const compact = (section: Fields): Fields => {
+  const out: Fields = {};
+  Object.keys(section).forEach((key) => {
+    if (section[key] !== undefined) out[key] = section[key];
+  });
+  return out;
+};
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+type SectionName = keyof Sections;
+
+// Every field a section may carry, optional ones included
+const SECTION_FIELDS: { [K in SectionName]: readonly (keyof Sections[K])[] } = {
+  geometry: ['shape', 'radius', 'bezel', 'profile', 'squircleExponent', 'squircleMode'],
+  refraction: ['scale', 'ior', 'thickness', 'blur', 'encoding'],
+  dispersion: ['delta', 'abbe'],
+  frost: ['amount', 'pattern', 'mask', 'grain'],
+  highlight: ['strength', 'color'],
+  shadows: ['drop', 'volume'],
+  tint: ['color', 'density'],
+  lighting: ['environment', 'lights', 'reflection'],
+};
+
+const SECTIONS = Object.keys(SECTION_FIELDS) as SectionName[];
+
+const LIGHT_FIELDS = {
+  point: ['x', 'y', 'z'],
+  distant: ['azimuth', 'elevation'],
+  spot: ['x', 'y', 'z', 'pointsAtX', 'pointsAtY'],
+} as const;
+
+/** Every problem with `material`, one line each, prefixed with the field path. */
+function validate(material: unknown): string[] {
+  const issues: string[] = [];
+  const fail = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  const number = (path: string, value: unknown, min = -Infinity, max = Infinity, optional = false) => {
+    if (value === undefined && optional) return;
+    if (!isFiniteNumber(value)) fail(path, `expected a number, got ${JSON.stringify(value)}`);
+    else if (value < min || value > max) fail(path, `${value} is outside ${min}-${max}`);
+  };
+  const oneOf = (path: string, value: unknown, options: readonly string[], optional = false) => {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string' || !options.includes(value)) fail(path, `expected one of ${options.join(', ')}`);
+  };
+  const color = (path: string, value: unknown) => {
+    if (typeof value !== 'string' || !HEX.test(value)) fail(path, 'expected a hex colour');
+  };
+  // An object whose keys all appear in `known`; null (after reporting) otherwise
+  const fields = (path: string, value: unknown, known: readonly string[]): Fields | null => {
+    if (!isObject(value)) {
+      fail(path, 'expected an object');
+      return null;
+    }
+    Object.keys(value).forEach((key) => {
+      if (!known.includes(key)) fail(`${path}.${key}`, 'unknown field');
+    });
+    return value;
+  };
+
+  const root = fields('material', material, ['version', 'name', ...SECTIONS]);
+  if (!root) return issues;
+
+  if (root.version !== GLASS_MATERIAL_VERSION) fail('version', `expected ${GLASS_MATERIAL_VERSION}`);
+  if (typeof root.name !== 'string') fail('name', 'expected a string');
+
+  const g = fields('geometry', root.geometry, SECTION_FIELDS.geometry);
+  if (g) {
+    if (isObject(g.shape)) {
+      const shape = fields('geometry.shape', g.shape, ['path', 'viewBox', 'fit', 'fillRule']);
+      if (shape) {
+        if (typeof shape.path !== 'string') fail('geometry.shape.path', 'expected SVG path data');
+        const { viewBox } = shape;
+        if (viewBox !== undefined && !(Array.isArray(viewBox) && viewBox.length === 4 && viewBox.every(isFiniteNumber))) {
+          fail('geometry.shape.viewBox', 'expected four numbers');
+        }
+        oneOf('geometry.shape.fit', shape.fit, ['contain', 'fill'], true);
+        oneOf('geometry.shape.fillRule', shape.fillRule, ['nonzero', 'evenodd'], true);
+      }
+    } else {
+      oneOf('geometry.shape', g.shape, ['rect', 'squircle']);
+    }
+    number('geometry.radius', g.radius, 0, 2000);
+    number('geometry.bezel', g.bezel, 0, 1000);
+    if (isObject(g.profile)) {
+      const profile = fields('geometry.profile', g.profile, ['type', 'points']);
+      const points = profile?.points;
+      if (profile?.type === 'cubic-bezier') {
+        if (!Array.isArray(points) || points.length !== 4 || !points.every(isFiniteNumber)) {
+          fail('geometry.profile.points', 'expected four numbers');
+        }
+      } else if (profile?.type === 'points') {
+        if (!Array.isArray(points)) fail('geometry.profile.points', 'expected an array of [t, h] pairs');
+        else points.forEach((point: unknown, i) => {
+          if (!Array.isArray(point) || point.length !== 2 || !point.every(isFiniteNumber)) {
+            fail(`geometry.profile.points[${i}]`, 'expected a [t, h] pair of numbers');
+          }
+        });
+      } else if (profile) {
+        fail('geometry.profile.type', `expected 'cubic-bezier' or 'points'`);
+      }
+    } else {
+      oneOf('geometry.profile', g.profile, ['convex', 'concave', 'flat', 'liquid']);
+    }
+    number('geometry.squircleExponent', g.squircleExponent, 2, 32);
+    oneOf('geometry.squircleMode', g.squircleMode, ['full', 'corners']);
+  }
+
+  const r = fields('refraction', root.refraction, SECTION_FIELDS.refraction);
+  if (r) {
+    number('refraction.scale', r.scale, 0, 500);
+    if (typeof r.ior === 'string') oneOf('refraction.ior', r.ior, Object.keys(GlassIorPresets));
+    else number('refraction.ior', r.ior, IOR_MIN, IOR_MAX, true);
+    number('refraction.thickness', r.thickness, 0, 1000, true);
+    number('refraction.blur', r.blur, 0, 200);
+    oneOf('refraction.encoding', r.encoding, ['linear', 'dither', 'companded']);
+  }
+
+  const d = fields('dispersion', root.dispersion, SECTION_FIELDS.dispersion);
+  if (d) {
+    number('dispersion.delta', d.delta, 0, 100);
+    number('dispersion.abbe', d.abbe, 0, 100, true);
+  }
+
+  const f = fields('frost', root.frost, SECTION_FIELDS.frost);
+  if (f) {
+    number('frost.amount', f.amount, 0, 100);
+    oneOf('frost.pattern', f.pattern, ['grain', 'sandblast']);
+    if (isObject(f.mask)) {
+      if (f.mask.type === 'edge') {
+        const mask = fields('frost.mask', f.mask, ['type', 'width']);
+        number('frost.mask.width', mask?.width, 0, 2000, true);
+      } else if (f.mask.type === 'gradient') {
+        const mask = fields('frost.mask', f.mask, ['type', 'angle', 'from', 'to']);
+        number('frost.mask.angle', mask?.angle, -360, 360, true);
+        number('frost.mask.from', mask?.from, 0, 1, true);
+        number('frost.mask.to', mask?.to, 0, 1, true);
+      } else {
+        oneOf('frost.mask.type', f.mask.type, ['edge', 'gradient']);
+      }
+    } else {
+      oneOf('frost.mask', f.mask, ['uniform', 'edge', 'gradient']);
+    }
+    number('frost.grain', f.grain, 1, 64);
+  }
+
+  const h = fields('highlight', root.highlight, SECTION_FIELDS.highlight);
+  if (h) {
+    number('highlight.strength', h.strength, 0, 1);
+    color('highlight.color', h.color);
+  }
+
+  const s = fields('shadows', root.shadows, SECTION_FIELDS.shadows);
+  if (s) {
+    number('shadows.drop', s.drop, 0, 1);
+    number('shadows.volume', s.volume, 0, 1);
+  }
+
+  const t = fields('tint', root.tint, SECTION_FIELDS.tint);
+  if (t) {
+    if (!(typeof t.color === 'string' && t.color in GlassTintPresets)) color('tint.color', t.color);
+    number('tint.density', t.density, 0, 10);
+  }
+
+  const l = fields('lighting', root.lighting, SECTION_FIELDS.lighting);
+  if (l) {
+    oneOf('lighting.environment', l.environment, Object.keys(GlassEnvironments), true);
+    if (l.lights !== undefined) {
+      if (!Array.isArray(l.lights)) fail('lighting.lights', 'expected an array');
+      else l.lights.forEach((entry: unknown, i) => {
+        const path = `lighting.lights[${i}]`;
+        const type = isObject(entry) ? entry.type : undefined;
+        if (type !== 'point' && type !== 'distant' && type !== 'spot') {
+          if (isObject(entry)) oneOf(`${path}.type`, type, Object.keys(LIGHT_FIELDS));
+          else fail(path, 'expected an object');
+          return;
+        }
+        const optional = type === 'spot' ? ['pointsAtZ', 'focus', 'coneAngle'] : [];
+        const light = fields(path, entry, ['type', 'color', 'intensity', ...LIGHT_FIELDS[type], ...optional]);
+        if (!light) return;
+        LIGHT_FIELDS[type].forEach((key) => number(`${path}.${key}`, light[key]));
+        if (type === 'spot') {
+          number(`${path}.pointsAtZ`, light.pointsAtZ, -Infinity, Infinity, true);
+          number(`${path}.focus`, light.focus, 0, 1000, true);
+          number(`${path}.coneAngle`, light.coneAngle, 0, 180, true);
+        }
+        if (light.color !== undefined && (typeof light.color !== 'string' || light.color === '')) {
+          fail(`${path}.color`, 'expected a CSS colour');
+        }
+        number(`${path}.intensity`, light.intensity, 0, 10, true);
+      });
+    }
+    number('lighting.reflection', l.reflection, 0, 1);
+  }
+
+  return issues;
+}
+
+// -----------------------------------------------------------------------------
+// JSON
+// -----------------------------------------------------------------------------
+
+/**
+ * Reads a material from JSON text or an already parsed object, migrating older
+ * versions. Throws a GlassMaterialError listing every problem found.
+ */
+export function deserializeGlassMaterial(input: string | unknown): GlassMaterial {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (err) {
+      throw materialError([`JSON: ${(err as Error).message}`]);
+    }
+  }
+  if (!isObject(data)) throw materialError(['expected a JSON object']);
+
+  // Sections that aren't objects are left as they are for validate to report
+  const material: Fields = { ...migrate(data) };
+  if (material.name === undefined) material.name = DEFAULT_GLASS_MATERIAL.name;
+  SECTIONS.forEach((key) => {
+    const section = material[key];
+    if (section === undefined) material[key] = { ...DEFAULT_GLASS_MATERIAL[key] };
+    else if (isObject(section)) material[key] = { ...DEFAULT_GLASS_MATERIAL[key], ...compact(section) };
+  });
+
+  const issues = validate(material);
+  if (issues.length > 0) throw materialError(issues);
+  return material as unknown as GlassMaterial; // Every field checked above
+}
+
+/** Pretty-printed JSON. Validates first, so only loadable files are written. */
+export function serializeGlassMaterial(material: GlassMaterial): string {
+  const issues = validate(material);
+  if (issues.length > 0) throw materialError(issues);
+  return JSON.stringify(material, null, 2);
+}
+
+// -----------------------------------------------------------------------------
+// Components
+// -----------------------------------------------------------------------------
+
+/**
+ * Props for components/Package/GlassBubble. GlassBubble has no frost or shadow
+ * passes, so those sections aren't mapped; `lighting.environment` and
+ * `lighting.lights` match GlassOverlay's `environment` and `lights` props and
+ * are left for the caller to pass on.
+ */
+export function glassMaterialProps(material: GlassMaterial) {
+  const { geometry, refraction, dispersion, highlight, tint, lighting } = material;
+  return {
+    shape: geometry.shape,
+    radius: geometry.radius,
+    bezel: geometry.bezel,
+    profile: geometry.profile,
+    squircleExponent: geometry.squircleExponent,
+    squircleMode: geometry.squircleMode,
+    intensity: refraction.scale,
+    ior: refraction.ior,
+    thickness: refraction.thickness,
+    blur: refraction.blur,
+    encoding: refraction.encoding,
+    dispersion: dispersion.abbe ? { delta: dispersion.delta, abbe: dispersion.abbe } : dispersion.delta || undefined,
+    highlight: highlight.strength,
+    rimColor: highlight.color,
+    tint: tint.density > 0 ? tint.color : undefined,
+    tintDensity: tint.density,
+    reflection: lighting.reflection,
+  };
+}
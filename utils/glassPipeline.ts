@@ -0,0 +1,114 @@
+import { GlassMaps, GlassSurfaceOptions } from './glassGenerator';
+import { generateGradientMap, GradientMapOptions } from './gradientGenerator';
+import type { FrostMapOptions } from './frostGenerator';
+import { requestGlassMaps, requestFrostMaps, cancelGlassMaps, generateOrBlank } from './requestGlassMaps';
+import { acquireCachedMap, glassMapKey } from './glassMapCache';
+
+export type {
+  GlassMaps,
+  GlassSurfaceOptions,
+  GlassShape,
+  GlassShapeProfile,
+  GlassSquircleMode,
+  GlassPathShape,
+  GlassProfileCurve,
+  GlassRefraction,
+  GlassIorPreset,
+  GlassMapEncoding,
+  GlassQuantizationError,
+  GlassChannel,
+  GlassChannelLayout,
+} from './glassGenerator';
+export type { GradientMapOptions } from './gradientGenerator';
+export type { FrostMapOptions, GlassFrostPattern, GlassFrostMask } from './frostGenerator';
+export { requestGlassMaps, requestFrostMaps, cancelGlassMaps, releaseGlassMaps, isGlassMapAbort } from './requestGlassMaps';
+export { releaseGlassMap, setGlassMapCacheBudget, getGlassMapCacheStats } from './glassMapCache';
+export {
+  STANDARD_CHANNELS, displacementSelectors, channelToAlphaMatrix, channelToGreyMatrix, checkChannelLayout,
+} from './mapChannels';
+
+/**
+ * Glass Map Pipeline
+ * ------------------
+ * The one entry point for displacement maps. Components describe the glass with a
+ * typed options object and pick a backend; they never import a generator directly.
+ *
+ * BACKENDS:
+ * 'raster-sdf'   (default) Per-pixel generator: any shape, profile, noise, physical
+ *                refraction. Built in a Web Worker.
+ * 'svg-gradient' SVG gradients plus a blurred plateau. Instant, rounded rects only.
+ * 'frost'        Scatter grain for frosted glass: R/G scatter, B mask, opaque alpha
+ *                (see frostGenerator.ts). Built in the same Web Worker.
+ *
+ * CHANNEL LAYOUT (surface backends, also carried on each map as `channels`):
+ * R: X displacement  0 = -0.5 * scale, 128 = none, 255 = +0.5 * scale
+ * G: Y displacement  same encoding as R
+ * B: Height          0 = outer edge of the rim, 255 = plateau
+ * A: Mask            255 inside the glass, 0 outside (unless `opaque`)
+ * Filters take their selectors from `maps.channels`, never from this comment.
+ *
+ * Maps are shared through the LRU cache (glassMapCache.ts): acquire per owner,
+ * `releaseGlassMap(owner)` on unmount. For frames that shouldn't be cached
+ * (animation) use `requestGlassMaps` and `releaseGlassMaps`.
+ */
+
+export type GlassMapBackend = 'raster-sdf' | 'svg-gradient' | 'frost';
+
+export type RasterGlassMapOptions = GlassSurfaceOptions & { backend?: 'raster-sdf' };
+export type GradientGlassMapOptions = GradientMapOptions & { backend: 'svg-gradient' };
+export type FrostGlassMapOptions = FrostMapOptions & { backend: 'frost' };
+export type GlassMapOptions = RasterGlassMapOptions | GradientGlassMapOptions | FrostGlassMapOptions;
+
+interface GlassMapBackendImpl<O> {
+  /** `key` is the cache key, reused as the job owner so a dropped build can be cancelled */
+  build: (options: O, key: string) => Promise<GlassMaps>;
+  cancel?: (key: string) => void;
+}
+
+const backends: {
+  'raster-sdf': GlassMapBackendImpl<GlassSurfaceOptions>;
+  'svg-gradient': GlassMapBackendImpl<GradientMapOptions>;
+  'frost': GlassMapBackendImpl<FrostMapOptions>;
+} = {
+  'raster-sdf': {
+    build: (options, key) => requestGlassMaps(key, options),
+    cancel: cancelGlassMaps,
+  },
+  'svg-gradient': {
+    build: (options) => Promise.resolve(generateOrBlank(generateGradientMap, options)),
+  },
+  'frost': {
+    build: (options, key) => requestFrostMaps(key, options),
+    cancel: cancelGlassMaps,
+  },
+};
+
+const acquireWith = <O extends { width: number; height: number }>(
+  owner: string,
+  backend: GlassMapBackend,
+  impl: GlassMapBackendImpl<O>,
+  options: O
+) => {
+  const key = glassMapKey(backend, options);
+  const bytes = Math.ceil(options.width) * Math.ceil(options.height) * 4;
+  return acquireCachedMap(owner, key, bytes, () => impl.build(options, key), impl.cancel && (() => impl.cancel!(key)));
+};
+
+/**
+ * Points `owner` (usually the element's filter id) at the map for `options`.
+ * Cached and shared between identical elements. A map that fails to generate
+ * comes back blank; the only rejection is an 'AbortError' (see `isGlassMapAbort`)
+ * when the owner asks for something newer first.
+ */
+export function acquireGlassMap(owner: string, options: GlassMapOptions): Promise<GlassMaps> {
+  if (options.backend === 'svg-gradient') {
+    const { backend, ...rest } = options;
+    return acquireWith(owner, backend, backends['svg-gradient'], rest);
+  }
+  if (options.backend === 'frost') {
+    const { backend, ...rest } = options;
+    return acquireWith(owner, backend, backends['frost'], rest);
+  }
+  const { backend = 'raster-sdf', ...rest } = options;
+  return acquireWith(owner, backend, backends['raster-sdf'], rest);
+}
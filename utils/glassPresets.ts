@@ -0,0 +1,122 @@
+import { Theme } from './theme';
+import type { GlassMapEncoding } from './glassGenerator';
+import type { GlassDispersion } from './dispersion';
+import type { GlassTintPreset } from './glassTint';
+import type { GlassRendererPreference } from './glassSupport';
+
+/**
+ * Glass Presets
+ * -------------
+ * Settings shared by every glass component, under the Glass primitives' prop
+ * names (`refraction` is GlassBubble's `intensity`, `blur` is GlassOverlay's
+ * `bgBlur`, `bezel` is LiquidGlass's `bezelWidth`). GlassProvider layers them,
+ * lowest first:
+ *
+ *   component default < provider preset < provider defaults
+ *     < instance preset < quality tier < instance prop
+ *
+ * The quality tier sits above presets so 'low' can switch off passes a preset
+ * turned on, while a prop set on the component itself always wins.
+ */
+
+export interface GlassSettings {
+  /** Corner radius in px */
+  radius?: number;
+  /** Bevelled edge width in px */
+  bezel?: number;
+  /** Displacement strength in px */
+  refraction?: number;
+  /** Backdrop blur in px */
+  blur?: number;
+  dispersion?: number | GlassDispersion;
+  tint?: GlassTintPreset | string;
+  tintDensity?: number;
+  /** Rim light strength (0-1) */
+  highlight?: number;
+  rimColor?: string;
+  /** Environment reflection strength (0-1) */
+  reflection?: number;
+  encoding?: GlassMapEncoding;
+  renderer?: GlassRendererPreference;
+  /** Max map regenerations per second for animated glass */
+  fps?: number;
+}
+
+const px = (token: string) => parseFloat(token);
+
+/** Named looks, sized from the Theme scale. */
+export const GlassPresets = {
+  subtle: {
+    radius: Theme.Radius.M,
+    bezel: 12,
+    refraction: 12,
+    blur: px(Theme.Effect.Blur.S),
+    highlight: 0.3,
+  },
+  dock: {
+    radius: Theme.Radius.L,
+    bezel: 16,
+    refraction: 24,
+    blur: px(Theme.Effect.Blur.M),
+    tint: 'smoke',
+    tintDensity: 0.2,
+    highlight: 0.5,
+  },
+  heavy: {
+    radius: Theme.Radius.L + Theme.Space.S,
+    bezel: 32,
+    refraction: 60,
+    blur: 2,
+    dispersion: 4,
+    highlight: 0.8,
+    reflection: 0.3,
+  },
+  frosted: {
+    radius: Theme.Radius.L,
+    bezel: 20,
+    refraction: 10,
+    blur: px(Theme.Effect.Blur.L),
+    tint: 'smoke',
+    tintDensity: 0.3,
+    highlight: 0.2,
+  },
+} satisfies Record<string, GlassSettings>;
+
+export type GlassPresetName = keyof typeof GlassPresets;
+
+export type GlassQuality = 'low' | 'medium' | 'high';
+
+/** What each tier changes. 'low' drops the extra filter passes and slows animation. */
+export const GlassQualityTiers: Record<GlassQuality, GlassSettings> = {
+  low: { dispersion: 0, reflection: 0, encoding: 'linear', fps: 8 },
+  medium: { fps: 15 },
+  high: { encoding: 'dither', fps: 30 },
+};
+
+interface DeviceHints {
+  deviceMemory?: number;
+  connection?: { saveData?: boolean };
+}
+
+/** A tier for this device: 'low' on Save-Data or small devices, 'high' on 8+ cores. */
+export function detectGlassQuality(): GlassQuality {
+  if (typeof navigator === 'undefined') return 'medium';
+  const { deviceMemory, connection } = navigator as Navigator & DeviceHints;
+  const cores = navigator.hardwareConcurrency ?? 4;
+  if (connection?.saveData || cores <= 2 || (deviceMemory !== undefined && deviceMemory <= 2)) return 'low';
+  if (cores >= 8 && (deviceMemory === undefined || deviceMemory >= 8)) return 'high';
+  return 'medium';
+}
+
+/** Layers settings left to right; undefined values don't override. */
+export function mergeGlassSettings(...layers: (GlassSettings | undefined)[]): GlassSettings {
+  const merged: Record<string, unknown> = {};
+  layers.forEach((layer) => {
+    if (!layer) return;
+    Object.keys(layer).forEach((key) => {
+      const value = (layer as Record<string, unknown>)[key];
+      if (value !== undefined) merged[key] = value;
+    });
+  });
+  return merged as GlassSettings;
+}
@@ -0,0 +1,55 @@
+import { GlassIorPreset, resolveIor } from './refraction';
+
+/**
+ * Environment Reflection
+ * ----------------------
+ * Glass mirrors its surroundings, most strongly at grazing angles. The filters
+ * look an environment image up through the map's displacement (normal) channels
+ * and blend it over the refracted backdrop with a Fresnel weight taken from the
+ * height channel: the outer edge of the bezel reflects, the flat plateau barely does.
+ */
+
+/** A generated gradient sky, used when no environment image is given. */
+export interface GlassSky {
+  zenith: string;
+  horizon: string;
+  ground: string;
+}
+
+/** An image URL (photo, HDR tonemap, etc.) or a generated sky. */
+export type GlassEnvironmentMap = string | GlassSky;
+
+export const DEFAULT_SKY: GlassSky = {
+  zenith: '#9cc4ff',
+  horizon: '#f4f7ff',
+  ground: '#5b5f6b',
+};
+
+/** Data URL for an environment: images pass through, skies become an SVG gradient. */
+export function environmentImageUrl(environment: GlassEnvironmentMap = DEFAULT_SKY): string {
+  if (typeof environment === 'string') return environment;
+  const { zenith, horizon, ground } = environment;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1" preserveAspectRatio="none">` +
+    `<linearGradient id="s" x1="0" y1="0" x2="0" y2="1">` +
+    `<stop offset="0" stop-color="${zenith}"/><stop offset="0.5" stop-color="${horizon}"/>` +
+    `<stop offset="0.55" stop-color="${ground}"/><stop offset="1" stop-color="${ground}"/>` +
+    `</linearGradient><rect width="1" height="1" fill="url(#s)"/></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+/** Reflectance at normal incidence: ((n - 1) / (n + 1))^2, about 0.04 for glass. */
+export function fresnelF0(ior: number | GlassIorPreset = 1.5): number {
+  const n = resolveIor(ior);
+  return ((n - 1) / (n + 1)) ** 2;
+}
+
+/**
+ * feFuncA 'gamma' parameters for Schlick's approximation, F0 + (1 - F0) * (1 - h)^5,
+ * with 1 - h (height from the rim inwards) standing in for 1 - cos(theta).
+ * Scaled by `strength` so 0 turns the reflection off.
+ */
+export function fresnelTransfer(strength: number, f0: number, exponent = 5) {
+  const s = Math.max(0, Math.min(1, strength));
+  return { amplitude: s * (1 - f0), exponent, offset: s * f0 };
+}
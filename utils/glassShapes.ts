@@ -0,0 +1,35 @@
+import { GlassPathShape } from './distanceField';
+
+/**
+ * Path Shape Presets
+ * ------------------
+ * Ready-made outlines for the path branch of the glass generator.
+ * Each one lives in a 100x100 viewBox and is fitted to the element.
+ */
+export const GlassPathPresets = {
+  pill: {
+    path: 'M 25,30 L 75,30 A 20,20 0 0 1 75,70 L 25,70 A 20,20 0 0 1 25,30 Z',
+    viewBox: [0, 0, 100, 100],
+    fit: 'fill',
+  },
+  circle: {
+    path: 'M 50,2 A 48,48 0 1 1 50,98 A 48,48 0 1 1 50,2 Z',
+    viewBox: [0, 0, 100, 100],
+  },
+  star: {
+    path: 'M 50.0,2.0 L 61.8,33.8 L 95.7,35.2 L 69.0,56.2 L 78.2,88.8 L 50.0,70.0 L 21.8,88.8 L 31.0,56.2 L 4.3,35.2 L 38.2,33.8 Z',
+    viewBox: [0, 0, 100, 100],
+  },
+  // Two concentric circles + evenodd = a glass donut with a clear hole
+  ring: {
+    path: 'M 50,2 A 48,48 0 1 1 50,98 A 48,48 0 1 1 50,2 Z M 50,30 A 20,20 0 1 1 50,70 A 20,20 0 1 1 50,30 Z',
+    viewBox: [0, 0, 100, 100],
+    fillRule: 'evenodd',
+  },
+  blob: {
+    path: 'M 52,4 C 78,2 97,22 95,48 C 93,74 80,96 52,95 C 26,94 6,80 5,54 C 4,28 24,6 52,4 Z',
+    viewBox: [0, 0, 100, 100],
+  },
+} satisfies Record<string, GlassPathShape>;
+
+export type GlassPathPresetName = keyof typeof GlassPathPresets;
@@ -0,0 +1,74 @@
+/**
+ * Glass Renderer Support
+ * ----------------------
+ * `backdrop-filter: url(#filter)` only works in Chromium. Elsewhere the glass
+ * would silently become plain blur, so components pick a renderer up front:
+ *
+ * 'svg-backdrop'  The full SVG filter on the backdrop. Chromium only.
+ * 'svg-filter'    The SVG filter on the element's own content (LiquidGlass). Every browser.
+ * 'webgl'         A canvas that redraws a known background element (img, canvas, video
+ *                 or a CSS background-image) through the same displacement map.
+ *                 Refraction, blur and mask only: lighting and colour layers are SVG-only.
+ * 'css-blur'      Plain `backdrop-filter: blur()`. Last resort.
+ */
+
+export type GlassRenderer = 'svg-backdrop' | 'svg-filter' | 'webgl' | 'css-blur';
+export type GlassRendererPreference = GlassRenderer | 'auto';
+
+export interface GlassSupport {
+  /** backdrop-filter accepts url() references to SVG filters */
+  svgBackdrop: boolean;
+  /** A WebGL context can be created */
+  webgl: boolean;
+}
+
+let cached: GlassSupport | null = null;
+
+interface UserAgentData {
+  brands?: { brand: string }[];
+}
+
+const isChromium = () => {
+  const data = (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData;
+  if (data?.brands) return data.brands.some(({ brand }) => brand === 'Chromium');
+  // Chrome on iOS ("CriOS") is WebKit underneath and doesn't count
+  return /\bChrome\/\d+/.test(navigator.userAgent) && !/Firefox|FxiOS/.test(navigator.userAgent);
+};
+
+const hasWebGL = () => {
+  try {
+    const canvas = document.createElement('canvas');
+    return !!(canvas.getContext('webgl') ?? canvas.getContext('experimental-webgl'));
+  } catch {
+    return false;
+  }
+};
+
+/** What this browser can do. Detected once and cached. */
+export function detectGlassSupport(): GlassSupport {
+  if (cached) return cached;
+  if (typeof window === 'undefined') return { svgBackdrop: false, webgl: false };
+
+  const backdrop = typeof CSS !== 'undefined' &&
+    (CSS.supports('backdrop-filter', 'blur(1px)') || CSS.supports('-webkit-backdrop-filter', 'blur(1px)'));
+  cached = { svgBackdrop: backdrop && isChromium(), webgl: hasWebGL() };
+  return cached;
+}
+
+/**
+ * The renderer a backdrop glass component should use.
+ * `canCapture` says whether a background element is available for 'webgl'.
+ * An explicit preference is honoured only if the browser supports it.
+ */
+export function chooseGlassRenderer(preference: GlassRendererPreference = 'auto', canCapture = false): GlassRenderer {
+  const support = detectGlassSupport();
+  const webgl = support.webgl && canCapture;
+
+  if (preference === 'svg-backdrop' && support.svgBackdrop) return 'svg-backdrop';
+  if (preference === 'webgl' && webgl) return 'webgl';
+  if (preference === 'css-blur') return 'css-blur';
+
+  if (support.svgBackdrop) return 'svg-backdrop';
+  if (webgl) return 'webgl';
+  return 'css-blur';
+}
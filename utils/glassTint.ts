@@ -0,0 +1,64 @@
+import { Theme } from './theme';
+
+/**
+ * Tinted Glass
+ * ------------
+ * Coloured glass absorbs light along its path (Beer–Lambert): T = exp(-a * d).
+ * The path length here is the map's height channel, so the thin bezel edge stays
+ * nearly clear and the thick plateau takes the full colour.
+ *
+ * The tint colour is what the plateau transmits at `density` 1. Per channel,
+ * a = -ln(colour), so T(h) = colour ^ (density * h).
+ */
+
+export interface GlassTint {
+  /** Hex colour ('#rgb' or '#rrggbb') transmitted by the plateau at density 1 */
+  color: string;
+  /** Optical depth multiplier. 0 = clear, 1 = plateau matches `color`, higher = deeper */
+  density?: number;
+}
+
+/** Tints drawn from the Theme palette. */
+export const GlassTintPresets = {
+  azure: Theme.Color.Fixed.Info,
+  emerald: Theme.Color.Fixed.Success,
+  amber: Theme.Color.Fixed.Warning,
+  ruby: Theme.Color.Fixed.Error,
+  smoke: Theme.Color.Base.Content[2],
+} as const;
+
+export type GlassTintPreset = keyof typeof GlassTintPresets;
+
+// Keeps fully absorbed channels finite (ln 0)
+const MIN_TRANSMITTANCE = 1 / 255;
+
+/** '#rgb' / '#rrggbb' to 0-1 channels. Falls back to white (no tint) for anything else. */
+export function parseHexColor(color: string): [number, number, number] {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [1, 1, 1];
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+/** Preset name, hex string or { color, density } to a full tint. */
+export function resolveTint(tint: GlassTintPreset | string | GlassTint, density = 1): Required<GlassTint> {
+  if (typeof tint === 'object') return { color: tint.color, density: tint.density ?? density };
+  const color = tint in GlassTintPresets ? GlassTintPresets[tint as GlassTintPreset] : tint;
+  return { color, density };
+}
+
+/**
+ * feFunc 'table' values per channel, mapping height (0-1) to transmittance.
+ * `samples` entries are linearly interpolated by the filter.
+ */
+export function transmittanceTables({ color, density = 1 }: GlassTint, samples = 17) {
+  const table = (channel: number) => {
+    const absorbance = -Math.log(Math.max(MIN_TRANSMITTANCE, channel));
+    return Array.from({ length: samples }, (_, i) => {
+      const h = i / (samples - 1);
+      return Math.exp(-absorbance * Math.max(0, density) * h).toFixed(4);
+    }).join(' ');
+  };
+  const [r, g, b] = parseHexColor(color);
+  return { r: table(r), g: table(g), b: table(b) };
+}
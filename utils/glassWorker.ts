@@ -0,0 +1,43 @@
+import { computeGlassSurface, GlassSurface, GlassSurfaceOptions } from './glassGenerator';
+import { computeFrostPixels, FrostMapOptions, FROST_CHANNELS } from './frostGenerator';
+
+/**
+ * Glass Map Worker
+ * ----------------
+ * Runs the per-pixel generators (glass surfaces and frost grain) off the main
+ * thread and encodes the result with OffscreenCanvas. Spawned by `requestGlassMaps`.
+ */
+
+export type GlassWorkerTask =
+  | { kind: 'surface'; options: GlassSurfaceOptions }
+  | { kind: 'frost'; options: FrostMapOptions };
+
+export type GlassWorkerRequest = GlassWorkerTask & { id: number };
+
+export type GlassWorkerResponse =
+  | ({ id: number; blob: Blob } & Omit<GlassSurface, 'pixels'>)
+  | { id: number; error: string };
+
+const reply = (message: GlassWorkerResponse) => self.postMessage(message);
+
+const compute = (task: GlassWorkerTask): GlassSurface =>
+  task.kind === 'frost'
+    ? { pixels: computeFrostPixels(task.options), channels: FROST_CHANNELS }
+    : computeGlassSurface(task.options);
+
+self.onmessage = async (event: MessageEvent<GlassWorkerRequest>) => {
+  const { id, ...task } = event.data;
+  const { width, height } = task.options;
+
+  try {
+    const { pixels, ...surface } = compute(task);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+    ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+    reply({ id, blob: await canvas.convertToBlob({ type: 'image/png' }), ...surface });
+  } catch (err) {
+    reply({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
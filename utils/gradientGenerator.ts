@@ -1,17 +1,27 @@
 
+import type { GlassMaps } from './glassGenerator';
+import { STANDARD_CHANNELS } from './mapChannels';
+
+export interface GradientMapOptions {
+  width: number;
+  height: number;
+  /** One radius, or [top-left, top-right, bottom-right, bottom-left] */
+  radius: number | [number, number, number, number];
+  /** Width of the sloped rim, in pixels */
+  bezel: number;
+  /** Blur on the inner plateau: how soft the slope into it is. Default 10 */
+  blur?: number;
+}
+
 /**
  * Generates an SVG Gradient Map for feDisplacementMap
  * Based on the Liquid Glass demo technique.
+ *
+ * This is the 'svg-gradient' backend of the glass map pipeline (glassPipeline.ts).
+ * Instant to build, but rounded rects only.
  */
-export function generateGlassMaps(
-  width: number,
-  height: number,
-  radius: number | [number, number, number, number],
-  bezel: number,
-  blur: number = 10,
-  fillProfile: 'convex' | 'concave' = 'convex'
-): string {
-  if (width === 0 || height === 0) return '';
+export function generateGradientMap({ width, height, radius, bezel, blur = 10 }: GradientMapOptions): GlassMaps {
+  if (width === 0 || height === 0) return { surfaceUrl: '', channels: STANDARD_CHANNELS };
 
   // Safe bezel calculation
   const safeBezel = Math.min(bezel, Math.min(width, height) / 2);
@@ -95,5 +105,5 @@ export function generateGlassMaps(
   `.trim();
 
   // Encode SVG
-  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  return { surfaceUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, channels: STANDARD_CHANNELS };
 }
@@ -0,0 +1,167 @@
+import type { MotionValue } from 'framer-motion';
+
+/**
+ * Light Tracking
+ * --------------
+ * Moves a light direction (-1 to 1 on each axis, same space as GlassOverlay's
+ * `lightDirection`) from live input. Everything runs outside React: the caller
+ * gets a smoothed direction per animation frame and writes it straight into
+ * the SVG light attributes.
+ *
+ * SOURCES:
+ * 'pointer'  Mouse/pen anywhere on the page, relative to the element's centre.
+ *            Touch only moves the light while a finger is down, then eases back.
+ * 'gyro'     Device orientation. Falls back to 'pointer' if no readings arrive
+ *            (desktop, permission denied, insecure context), and hands back to
+ *            the gyro for good once they do (e.g. after iOS grants permission).
+ * 'auto'     'gyro' on coarse pointers (phones, tablets), 'pointer' otherwise.
+ * MotionValues  Any { x, y } pair of framer-motion values, already normalised.
+ */
+
+export type GlassLightFollow =
+  | 'pointer'
+  | 'gyro'
+  | 'auto'
+  | { x: MotionValue<number>; y: MotionValue<number> };
+
+export interface LightDirection {
+  x: number;
+  y: number;
+}
+
+export interface LightTrackerOptions {
+  follow: GlassLightFollow;
+  /** Pointer positions are measured from this element's centre */
+  element: HTMLElement;
+  /** Where the light sits with no input (and where touch eases back to) */
+  rest: LightDirection;
+  /** Where to start from, e.g. the last direction when restarting. Default `rest` */
+  start?: LightDirection;
+  /** Smoothing time constant in seconds. 0 = follow input exactly */
+  smoothing?: number;
+  onUpdate: (direction: LightDirection) => void;
+}
+
+// Tilt (degrees) that moves the light all the way to one side
+const GYRO_RANGE = 45;
+// Phones are usually held tilted towards the user; treat that as level
+const GYRO_REST_BETA = 45;
+// How long to wait for a first orientation reading before falling back
+const GYRO_TIMEOUT = 1000;
+
+type PermissionedOrientation = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+
+/**
+ * Starts tracking and returns a cleanup function.
+ * Respects `prefers-reduced-motion` by leaving the light at `rest`.
+ */
+export function trackLight({ follow, element, rest, start = rest, smoothing = 0.12, onUpdate }: LightTrackerOptions): () => void {
+  if (typeof window === 'undefined') return () => {};
+  if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) return () => {};
+
+  const current = { ...start };
+  const target = { ...start };
+  let frame = 0;
+  let last = 0;
+
+  // Exponential smoothing, frame-rate independent
+  const tick = (now: number) => {
+    const dt = last ? (now - last) / 1000 : 1 / 60;
+    last = now;
+    const k = smoothing > 0 ? 1 - Math.exp(-dt / smoothing) : 1;
+    current.x += (target.x - current.x) * k;
+    current.y += (target.y - current.y) * k;
+
+    const settled = Math.abs(target.x - current.x) < 1e-3 && Math.abs(target.y - current.y) < 1e-3;
+    if (settled) {
+      current.x = target.x;
+      current.y = target.y;
+    }
+    onUpdate(current);
+    frame = settled ? 0 : requestAnimationFrame(tick);
+  };
+
+  const setTarget = (x: number, y: number) => {
+    target.x = clamp(x);
+    target.y = clamp(y);
+    if (!frame) {
+      last = 0;
+      frame = requestAnimationFrame(tick);
+    }
+  };
+
+  const cleanups: (() => void)[] = [() => cancelAnimationFrame(frame)];
+  const listen = <K extends keyof WindowEventMap>(type: K, fn: (e: WindowEventMap[K]) => void) => {
+    window.addEventListener(type, fn, { passive: true });
+    const stop = () => window.removeEventListener(type, fn);
+    cleanups.push(stop);
+    return stop;
+  };
+
+  // Returns a function that stops pointer tracking again
+  const startPointer = () => {
+    const move = listen('pointermove', (e) => {
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return;
+      setTarget(
+        (e.clientX - (rect.left + rect.width / 2)) / rect.width,
+        (e.clientY - (rect.top + rect.height / 2)) / rect.height
+      );
+    });
+    // Touch has no hover: return to rest once the finger lifts
+    const release = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') setTarget(rest.x, rest.y);
+    };
+    const stops = [move, listen('pointerup', release), listen('pointercancel', release)];
+    return () => stops.forEach(stop => stop());
+  };
+
+  const startGyro = () => {
+    let received = false;
+    let stopPointer: (() => void) | undefined;
+    const fallback = setTimeout(() => {
+      if (!received) stopPointer = startPointer();
+    }, GYRO_TIMEOUT);
+    cleanups.push(() => clearTimeout(fallback));
+
+    listen('deviceorientation', (e) => {
+      if (e.beta === null || e.gamma === null) return;
+      if (!received) {
+        // Readings can start after the fallback kicked in (iOS asks on first tap):
+        // from here on the gyro alone drives the light
+        received = true;
+        clearTimeout(fallback);
+        stopPointer?.();
+      }
+      setTarget(e.gamma / GYRO_RANGE, (e.beta - GYRO_REST_BETA) / GYRO_RANGE);
+    });
+
+    // iOS only grants orientation from inside a user gesture
+    const orientation = window.DeviceOrientationEvent as PermissionedOrientation | undefined;
+    if (orientation?.requestPermission) {
+      const ask = () => {
+        orientation.requestPermission!().catch(() => {});
+        window.removeEventListener('pointerdown', ask);
+      };
+      window.addEventListener('pointerdown', ask);
+      cleanups.push(() => window.removeEventListener('pointerdown', ask));
+    }
+  };
+
+  if (typeof follow === 'object') {
+    const sync = () => setTarget(follow.x.get(), follow.y.get());
+    cleanups.push(follow.x.on('change', sync), follow.y.on('change', sync));
+    sync();
+  } else {
+    const coarse = window.matchMedia?.('(pointer: coarse)').matches;
+    const gyro = follow === 'gyro' || (follow === 'auto' && coarse);
+    if (gyro && 'DeviceOrientationEvent' in window) startGyro();
+    else startPointer();
+  }
+
+  return () => cleanups.forEach(fn => fn());
+}
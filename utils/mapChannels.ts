@@ -0,0 +1,79 @@
+/**
+ * Map Channel Layouts
+ * -------------------
+ * Every glass map says which of its channels holds what. Filters read this
+ * instead of hard-coding selectors, so a map and the filter consuming it can't
+ * silently drift apart (e.g. displacing Y by the height channel).
+ */
+
+export type GlassChannel = 'R' | 'G' | 'B' | 'A';
+
+export interface GlassChannelLayout {
+  /** Horizontal displacement, 128 = none */
+  displaceX: GlassChannel;
+  /** Vertical displacement, 128 = none */
+  displaceY: GlassChannel;
+  /** Surface height, 0 = outer edge, 255 = plateau */
+  height?: GlassChannel;
+  /** Coverage, 255 = inside the glass */
+  mask?: GlassChannel;
+}
+
+export type GlassChannelRole = keyof GlassChannelLayout;
+
+/** The layout every built-in backend produces. */
+export const STANDARD_CHANNELS: GlassChannelLayout = {
+  displaceX: 'R',
+  displaceY: 'G',
+  height: 'B',
+  mask: 'A',
+};
+
+/** `xChannelSelector` / `yChannelSelector` props for an feDisplacementMap. */
+export function displacementSelectors(layout: GlassChannelLayout) {
+  return { xChannelSelector: layout.displaceX, yChannelSelector: layout.displaceY };
+}
+
+/** feColorMatrix `values` that copy one channel (or 1 - channel) into alpha and zero RGB. */
+export function channelToAlphaMatrix(channel: GlassChannel, invert = false) {
+  const weight = invert ? -1 : 1;
+  const row = (['R', 'G', 'B', 'A'] as const).map(c => (c === channel ? weight : 0)).join(' ');
+  return `0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  ${row} ${invert ? 1 : 0}`;
+}
+
+/** feColorMatrix `values` that copy one channel into R, G and B with opaque alpha. */
+export function channelToGreyMatrix(channel: GlassChannel) {
+  const row = (['R', 'G', 'B', 'A'] as const).map(c => (c === channel ? 1 : 0)).join(' ');
+  return `${row} 0  ${row} 0  ${row} 0  0 0 0 0 1`;
+}
+
+/** Which role (if any) `channel` plays in `layout`. */
+export function channelRole(layout: GlassChannelLayout, channel: GlassChannel): GlassChannelRole | undefined {
+  return (Object.keys(layout) as GlassChannelRole[]).find(role => layout[role] === channel);
+}
+
+/**
+ * Dev-mode check that a filter and the map it was handed agree.
+ * `reads` maps each role the filter relies on to the channel it actually reads
+ * for it. Warns when the map has no such role, or stores it somewhere else.
+ */
+export function checkChannelLayout(
+  filter: string,
+  layout: GlassChannelLayout,
+  reads: Partial<Record<GlassChannelRole, GlassChannel>>
+) {
+  if (process.env.NODE_ENV === 'production') return;
+
+  for (const role of Object.keys(reads) as GlassChannelRole[]) {
+    const channel = reads[role]!;
+    const actual = layout[role];
+    if (actual === channel) continue;
+
+    const stored = channelRole(layout, channel);
+    console.warn(
+      `[${filter}] reads ${role} from channel ${channel}, but the map ` +
+      (stored ? `stores ${stored} there` : `has nothing in ${channel}`) +
+      (actual ? ` (${role} is in ${actual}).` : ` and no ${role} channel.`)
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { createChannelEncoder, expandTableValues, GlassMapEncoding } from './mapEncoding';
+
+// Encodes `values` across a 4x4 tile per value, measuring every sample
+const encodeAll = (mode: GlassMapEncoding, values: number[]) => {
+  const encoder = createChannelEncoder(mode);
+  const codes = values.map((v) => {
+    const tile: number[] = [];
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) tile.push(encoder.encode(v, x, y, 0, true));
+    }
+    return tile;
+  });
+  return { codes, error: encoder.error() };
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+describe('createChannelEncoder', () => {
+  it('rounds linearly to the nearest byte and clamps', () => {
+    const { encode } = createChannelEncoder('linear');
+    expect(encode(0, 0, 0, 0, false)).toBe(0);
+    expect(encode(0.5, 0, 0, 0, false)).toBe(128);
+    expect(encode(1, 0, 0, 0, false)).toBe(255);
+    expect(encode(-0.2, 0, 0, 0, false)).toBe(0);
+    expect(encode(1.2, 0, 0, 0, false)).toBe(255);
+  });
+
+  it('keeps linear error within half a level', () => {
+    const values = Array.from({ length: 101 }, (_, i) => i / 100);
+    const { error } = encodeAll('linear', values);
+    expect(error.max).toBeLessThanOrEqual(0.5 / 255 + 1e-9);
+    expect(error.rms).toBeGreaterThan(0);
+  });
+
+  it('dithers to the right average over a 4x4 tile', () => {
+    [0.1, 0.3337, 0.5, 0.9021].forEach((v) => {
+      const { codes } = encodeAll('dither', [v]);
+      // 16 thresholds resolve a level into sixteenths
+      expect(Math.abs(mean(codes[0]) - v * 255)).toBeLessThanOrEqual(1 / 32 + 1e-9);
+      expect(new Set(codes[0]).size).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it('offsets the dither pattern per channel', () => {
+    const { encode } = createChannelEncoder('dither');
+    const red = [0, 1, 2, 3].map((x) => encode(0.3, x, 0, 0, false));
+    const green = [0, 1, 2, 3].map((x) => encode(0.3, x, 0, 1, false));
+    expect(green).not.toEqual(red);
+  });
+
+  it('gives small displacements finer steps when companded', () => {
+    const near = Array.from({ length: 201 }, (_, i) => 0.45 + i * 0.0005);
+    const linear = encodeAll('linear', near).error;
+    const companded = encodeAll('companded', near).error;
+    expect(companded.rms).toBeLessThan(linear.rms);
+    // The neutral value still decodes to (almost exactly) no displacement
+    const { encode } = createChannelEncoder('companded');
+    expect(encode(0.5, 0, 0, 0, false)).toBe(128);
+  });
+
+  it('only measures the samples it is told to', () => {
+    const encoder = createChannelEncoder('linear');
+    encoder.encode(0.3, 0, 0, 0, false);
+    expect(encoder.error()).toEqual({ max: 0, rms: 0 });
+  });
+});
+
+describe('expandTableValues', () => {
+  it('decodes the full range monotonically', () => {
+    const values = expandTableValues().split(' ').map(Number);
+    expect(values).toHaveLength(256);
+    expect(values[0]).toBe(0);
+    expect(values[255]).toBe(1);
+    values.forEach((v, i) => {
+      if (i > 0) expect(v).toBeGreaterThanOrEqual(values[i - 1]);
+    });
+  });
+
+  it('inverts the companding curve', () => {
+    // Stored 128 decodes back close to 0.5, and the curve is symmetric around it
+    const values = expandTableValues().split(' ').map(Number);
+    expect(values[128]).toBeCloseTo(0.5, 3);
+    expect(values[64] + values[191]).toBeCloseTo(1, 4);
+  });
+});
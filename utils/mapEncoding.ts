@@ -0,0 +1,92 @@
+/**
+ * Displacement Map Encoding
+ * -------------------------
+ * R/G only get 256 levels. At high `feDisplacementMap` scales one level is a
+ * visible step, so the bezel shows stair-stepping. Two ways around it:
+ *
+ * - 'dither': ordered (Bayer 4x4) dithering. Same average value, but the steps
+ *   turn into fine noise the eye (and the backdrop blur) averages away.
+ * - 'companded': values are stored on a square-root curve centred on 0.5, giving
+ *   small displacements (most of the bezel) finer steps at the cost of coarser
+ *   ones near the extremes. Needs the matching decode (`expandTableValues`) in
+ *   an feComponentTransfer before the displacement. The error readout assumes
+ *   that decode runs at float precision.
+ */
+
+export type GlassMapEncoding = 'linear' | 'dither' | 'companded';
+
+/** Quantisation error as a fraction of the channel range. Multiply by the scale for pixels. */
+export interface GlassQuantizationError {
+  max: number;
+  rms: number;
+}
+
+const GAMMA = 2;
+
+const BAYER_4 = [
+  0, 8, 2, 10,
+  12, 4, 14, 6,
+  3, 11, 1, 9,
+  15, 7, 13, 5,
+];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** 0..1 (0.5 = no displacement) onto the companding curve. */
+const compand = (v: number) => {
+  const s = v * 2 - 1;
+  return 0.5 + 0.5 * Math.sign(s) * Math.pow(Math.abs(s), 1 / GAMMA);
+};
+
+/** Inverse of `compand`: what the filter decodes a stored value back to. */
+const expand = (e: number) => {
+  const s = e * 2 - 1;
+  return 0.5 + 0.5 * Math.sign(s) * Math.pow(Math.abs(s), GAMMA);
+};
+
+/**
+ * Quantises displacement values to bytes and keeps score of the error.
+ * `channel` offsets the dither pattern so R and G don't step in lockstep.
+ * Only values with `measure` set count towards the error (i.e. inside the mask).
+ */
+export function createChannelEncoder(mode: GlassMapEncoding = 'linear') {
+  let max = 0;
+  let sumSq = 0;
+  let count = 0;
+
+  const encode = (value: number, x: number, y: number, channel: number, measure: boolean) => {
+    const v = clamp01(value);
+    let code: number;
+    let decoded: number;
+
+    if (mode === 'companded') {
+      code = Math.round(compand(v) * 255);
+      decoded = expand(code / 255);
+    } else {
+      const threshold = mode === 'dither'
+        ? (BAYER_4[((y + channel * 2) & 3) * 4 + ((x + channel) & 3)] + 0.5) / 16 - 0.5
+        : 0;
+      code = Math.max(0, Math.min(255, Math.round(v * 255 + threshold)));
+      decoded = code / 255;
+    }
+
+    if (measure) {
+      const err = Math.abs(decoded - v);
+      if (err > max) max = err;
+      sumSq += err * err;
+      count++;
+    }
+    return code;
+  };
+
+  const error = (): GlassQuantizationError => ({ max, rms: count ? Math.sqrt(sumSq / count) : 0 });
+
+  return { encode, error };
+}
+
+/** `tableValues` for the feComponentTransfer that decodes 'companded' R/G channels. */
+export function expandTableValues(samples = 256) {
+  const values: string[] = [];
+  for (let i = 0; i < samples; i++) values.push(expand(i / (samples - 1)).toFixed(5));
+  return values.join(' ');
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { resolveProfileCurve, sampleProfileCurve, toTransferableCurve, GlassProfileCurve } from './profileCurves';
+
+const range = (n: number) => Array.from({ length: n + 1 }, (_, i) => i / n);
+
+describe('resolveProfileCurve', () => {
+  it('treats cubic-bezier(0, 0, 1, 1) as the identity', () => {
+    const fn = resolveProfileCurve({ type: 'cubic-bezier', points: [0, 0, 1, 1] });
+    range(10).forEach((t) => expect(fn(t)).toBeCloseTo(t, 4));
+  });
+
+  it('anchors cubic-bezier curves at (0, 0) and (1, 1)', () => {
+    const ease = resolveProfileCurve({ type: 'cubic-bezier', points: [0.25, 0.1, 0.25, 1] });
+    expect(ease(0)).toBeCloseTo(0, 5);
+    expect(ease(1)).toBeCloseTo(1, 5);
+    // CSS `ease` is well ahead of linear halfway through
+    expect(ease(0.5)).toBeCloseTo(0.8024, 3);
+  });
+
+  it('passes through every control point', () => {
+    const points: [number, number][] = [[0, 0], [0.3, 0.7], [0.6, 0.8], [1, 1]];
+    const fn = resolveProfileCurve({ type: 'points', points });
+    points.forEach(([t, h]) => expect(fn(t)).toBeCloseTo(h, 6));
+  });
+
+  it('never overshoots between points', () => {
+    // A plateau then a step: an unconstrained spline would ring around both
+    const fn = resolveProfileCurve({ type: 'points', points: [[0, 0], [0.4, 0.9], [0.6, 0.9], [1, 1]] });
+    range(100).filter((t) => t >= 0.4 && t <= 0.6).forEach((t) => expect(fn(t)).toBeCloseTo(0.9, 6));
+    range(100).forEach((t, i, all) => {
+      if (i > 0) expect(fn(t)).toBeGreaterThanOrEqual(fn(all[i - 1]) - 1e-9);
+    });
+  });
+
+  it('sorts unordered points', () => {
+    const fn = resolveProfileCurve({ type: 'points', points: [[1, 1], [0, 0], [0.5, 0.2]] });
+    expect(fn(0.5)).toBeCloseTo(0.2, 6);
+  });
+
+  it('clamps input and output to 0..1', () => {
+    const fn = resolveProfileCurve((t) => t * 3 - 1);
+    expect(fn(-1)).toBe(0);
+    expect(fn(0.1)).toBe(0);
+    expect(fn(0.9)).toBe(1);
+    expect(fn(2)).toBe(1);
+  });
+});
+
+describe('sampleProfileCurve', () => {
+  it('samples evenly from t = 0 to t = 1', () => {
+    const lut = sampleProfileCurve((t) => t, 5);
+    expect(Array.from(lut)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+});
+
+describe('toTransferableCurve', () => {
+  it('passes declarative curves through untouched', () => {
+    const curve: GlassProfileCurve = { type: 'cubic-bezier', points: [0.4, 0, 0.2, 1] };
+    expect(toTransferableCurve(curve)).toBe(curve);
+  });
+
+  it('samples functions into points that survive structured cloning', () => {
+    const smoothstep = (t: number) => t * t * (3 - 2 * t);
+    const transferable = toTransferableCurve(smoothstep);
+    expect(typeof transferable).toBe('object');
+    expect(structuredClone(transferable)).toEqual(transferable);
+
+    const fn = resolveProfileCurve(transferable);
+    range(50).forEach((t) => expect(Math.abs(fn(t) - smoothstep(t))).toBeLessThan(1e-3));
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Bezel Profile Curves
+ * --------------------
+ * User-defined height profiles for the glass bezel.
+ * Every curve maps t (0 = outer edge, 1 = start of the plateau) to a height h (0..1).
+ */
+
+export type GlassProfileCurve =
+  /** CSS-style cubic-bezier(x1, y1, x2, y2), anchored at (0,0) and (1,1) */
+  | { type: 'cubic-bezier'; points: [number, number, number, number] }
+  /** (t, h) control points joined by a smooth monotone spline */
+  | { type: 'points'; points: [number, number][] }
+  | ((t: number) => number);
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const cubicBezier = ([x1, y1, x2, y2]: [number, number, number, number]) => {
+  const bx = (s: number) => 3 * (1 - s) * (1 - s) * s * x1 + 3 * (1 - s) * s * s * x2 + s * s * s;
+  const by = (s: number) => 3 * (1 - s) * (1 - s) * s * y1 + 3 * (1 - s) * s * s * y2 + s * s * s;
+  const dx = (s: number) => 3 * (1 - s) * (1 - s) * x1 + 6 * (1 - s) * s * (x2 - x1) + 3 * s * s * (1 - x2);
+
+  return (t: number) => {
+    // Newton first, bisection if the slope flattens out
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+      const err = bx(s) - t;
+      const slope = dx(s);
+      if (Math.abs(err) < 1e-5) return by(s);
+      if (Math.abs(slope) < 1e-6) break;
+      s = clamp01(s - err / slope);
+    }
+    let lo = 0, hi = 1;
+    s = t;
+    for (let i = 0; i < 24; i++) {
+      if (bx(s) < t) lo = s; else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return by(s);
+  };
+};
+
+// Fritsch-Carlson monotone cubic: smooth, and never overshoots between points
+const monotoneSpline = (input: [number, number][]) => {
+  const pts = [...input].sort((a, b) => a[0] - b[0]);
+  if (pts.length === 0) return (t: number) => t;
+  if (pts.length === 1) return () => pts[0][1];
+
+  const n = pts.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dt = pts[i + 1][0] - pts[i][0];
+    slopes.push(dt === 0 ? 0 : (pts[i + 1][1] - pts[i][1]) / dt);
+  }
+  const tangents: number[] = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+  }
+  tangents.push(slopes[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) { tangents[i] = tangents[i + 1] = 0; continue; }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const mag = a * a + b * b;
+    if (mag > 9) {
+      const k = 3 / Math.sqrt(mag);
+      tangents[i] = k * a * slopes[i];
+      tangents[i + 1] = k * b * slopes[i];
+    }
+  }
+
+  return (t: number) => {
+    if (t <= pts[0][0]) return pts[0][1];
+    if (t >= pts[n - 1][0]) return pts[n - 1][1];
+    let i = 0;
+    while (t > pts[i + 1][0]) i++;
+    const dt = pts[i + 1][0] - pts[i][0];
+    const u = (t - pts[i][0]) / dt;
+    const u2 = u * u, u3 = u2 * u;
+    return (2 * u3 - 3 * u2 + 1) * pts[i][1]
+      + (u3 - 2 * u2 + u) * dt * tangents[i]
+      + (-2 * u3 + 3 * u2) * pts[i + 1][1]
+      + (u3 - u2) * dt * tangents[i + 1];
+  };
+};
+
+/** Turns any curve description into a plain t -> h function (clamped to 0..1). */
+export function resolveProfileCurve(curve: GlassProfileCurve): (t: number) => number {
+  const fn = typeof curve === 'function'
+    ? curve
+    : curve.type === 'cubic-bezier'
+      ? cubicBezier(curve.points)
+      : monotoneSpline(curve.points);
+  return (t: number) => clamp01(fn(clamp01(t)));
+}
+
+/** Samples a curve into a lookup table (index i = t of i / (samples - 1)). */
+export function sampleProfileCurve(curve: GlassProfileCurve, samples = 256): Float32Array {
+  const fn = resolveProfileCurve(curve);
+  const lut = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) lut[i] = fn(i / (samples - 1));
+  return lut;
+}
+
+/**
+ * Makes a curve safe to post to a worker: functions are sampled into control points.
+ * Other curves pass through untouched.
+ */
+export function toTransferableCurve(curve: GlassProfileCurve, samples = 64): GlassProfileCurve {
+  if (typeof curve !== 'function') return curve;
+  const lut = sampleProfileCurve(curve, samples);
+  return { type: 'points', points: Array.from(lut, (h, i) => [i / (samples - 1), h] as [number, number]) };
+}
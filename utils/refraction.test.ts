@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { resolveIor, refractOffset, GlassIorPresets, IOR_MIN, IOR_MAX } from './refraction';
+
+const offset = (gx: number, gy: number, depth: number, ior: number) => {
+  const out: [number, number] = [0, 0];
+  refractOffset(gx, gy, depth, ior, out);
+  return out;
+};
+
+describe('resolveIor', () => {
+  it('looks up named materials', () => {
+    expect(resolveIor('crown')).toBe(GlassIorPresets.crown);
+    expect(resolveIor('diamond')).toBe(2.4);
+  });
+
+  it('clamps to the supported range', () => {
+    expect(resolveIor(0.5)).toBe(IOR_MIN);
+    expect(resolveIor(3)).toBe(IOR_MAX);
+    expect(resolveIor(1.4)).toBe(1.4);
+  });
+});
+
+describe('refractOffset', () => {
+  it('does not move rays through a flat surface', () => {
+    const [ox, oy] = offset(0, 0, 50, 1.5);
+    expect(ox).toBeCloseTo(0, 10);
+    expect(oy).toBeCloseTo(0, 10);
+  });
+
+  it('does not bend rays when the index matches air', () => {
+    const [ox, oy] = offset(0.7, -0.3, 50, 1);
+    expect(ox).toBeCloseTo(0, 10);
+    expect(oy).toBeCloseTo(0, 10);
+  });
+
+  it('follows Snell’s law', () => {
+    // 45° slope into n = 1.5: the ray leaves the vertical by (theta_i - theta_t)
+    const thetaI = Math.PI / 4;
+    const thetaT = Math.asin(Math.sin(thetaI) / 1.5);
+    const [ox, oy] = offset(1, 0, 10, 1.5);
+    expect(ox).toBeCloseTo(10 * Math.tan(thetaI - thetaT), 6);
+    expect(oy).toBeCloseTo(0, 10);
+  });
+
+  it('points along the slope and bends more with a higher index', () => {
+    const [ox, oy] = offset(0, 0.5, 20, 1.5);
+    expect(ox).toBeCloseTo(0, 10);
+    expect(oy).toBeGreaterThan(0);
+    expect(offset(-0.5, 0, 20, 1.5)[0]).toBeCloseTo(-oy, 10);
+    expect(offset(0, 0.5, 20, 2.4)[1]).toBeGreaterThan(oy);
+  });
+
+  it('scales linearly with depth', () => {
+    expect(offset(0.4, 0.2, 30, 1.5)[0]).toBeCloseTo(3 * offset(0.4, 0.2, 10, 1.5)[0], 10);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Physical Refraction
+ * -------------------
+ * Snell's law for a glass slab resting on the backdrop, viewed straight on.
+ * A ray enters the top surface, bends towards the surface normal and travels
+ * down to the backdrop; the lateral distance it covers is the displacement.
+ */
+
+/** Refractive indices of common materials (at ~589nm). */
+export const GlassIorPresets = {
+  water: 1.333,
+  acrylic: 1.49,
+  crown: 1.52,
+  flint: 1.62,
+  sapphire: 1.77,
+  diamond: 2.4,
+} as const;
+
+export type GlassIorPreset = keyof typeof GlassIorPresets;
+
+export interface GlassRefraction {
+  /** Index of refraction (1.0 = air, no bending, up to 2.4) or a named material */
+  ior: number | GlassIorPreset;
+  /** Glass thickness at the plateau, in pixels. The bezel thins out towards the edge. */
+  thickness: number;
+}
+
+export const IOR_MIN = 1.0;
+export const IOR_MAX = 2.4;
+
+/** Resolves a preset name and clamps to the supported range. */
+export function resolveIor(ior: number | GlassIorPreset): number {
+  const value = typeof ior === 'number' ? ior : GlassIorPresets[ior];
+  return Math.max(IOR_MIN, Math.min(IOR_MAX, value));
+}
+
+/**
+ * Lateral offset (in pixels) of a vertical ray refracted by a surface with slope
+ * (gx, gy) = dz/dx, dz/dy, which then travels `depth` pixels to the backdrop.
+ * Writes [ox, oy] into `out` to keep the per-pixel loop allocation free.
+ */
+export function refractOffset(gx: number, gy: number, depth: number, ior: number, out: [number, number]) {
+  // Surface normal (pointing up, out of the glass) and the incoming ray (0, 0, -1)
+  const len = Math.sqrt(gx * gx + gy * gy + 1);
+  const nx = -gx / len;
+  const ny = -gy / len;
+  const nz = 1 / len;
+
+  const eta = 1 / ior;
+  const cosI = nz;
+  const k = 1 - eta * eta * (1 - cosI * cosI); // Never negative going from air into glass
+  const c = eta * cosI - Math.sqrt(k);
+
+  // Refracted direction: eta * I + c * N
+  const rx = c * nx;
+  const ry = c * ny;
+  const rz = -eta + c * nz;
+
+  const travel = depth / -rz;
+  out[0] = rx * travel;
+  out[1] = ry * travel;
+}
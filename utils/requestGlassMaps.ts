@@ -0,0 +1,179 @@
+import { generateGlassMaps, GlassSurfaceOptions, GlassMaps } from './glassGenerator';
+import { generateFrostMap, FrostMapOptions } from './frostGenerator';
+import { toTransferableCurve } from './profileCurves';
+import { STANDARD_CHANNELS } from './mapChannels';
+import type { GlassWorkerRequest, GlassWorkerResponse, GlassWorkerTask } from './glassWorker';
+
+/**
+ * Async Glass Map Generator
+ * -------------------------
+ * Queues generator jobs on a shared Web Worker so slider drags don't stall the UI.
+ * Glass surfaces (`requestGlassMaps`) and frost grain (`requestFrostMaps`) share
+ * the one queue.
+ *
+ * - Jobs are keyed by `owner` (usually the element's filter id). A newer request
+ *   from the same owner drops its queued job and discards its in-flight result.
+ *   Dropped promises reject with an 'AbortError' DOMException, and that is the
+ *   only way they reject.
+ * - Without Worker/OffscreenCanvas support (or if the worker crashes) jobs fall
+ *   back to the synchronous generators, one per task. So do Path2D shapes, and
+ *   jobs the worker reports an error for.
+ * - If the main-thread generator throws too, the job resolves with a blank map
+ *   (no `surfaceUrl`), which components already render as flat glass.
+ *   Function profiles are sampled into control points before they're posted.
+ * - Worker results are blob: URLs. Hand them back with `releaseGlassMaps`.
+ */
+
+interface GlassMapJob {
+  id: number;
+  owner: string;
+  task: GlassWorkerTask;
+  cancelled?: boolean;
+  resolve: (maps: GlassMaps) => void;
+  reject: (reason: unknown) => void;
+}
+
+// undefined = not spawned yet, null = unavailable (use the sync path)
+let worker: Worker | null | undefined;
+let nextJobId = 1;
+let active: GlassMapJob | null = null;
+const queue: GlassMapJob[] = [];
+
+const abortError = () => new DOMException('Superseded by a newer glass map request', 'AbortError');
+
+export const isGlassMapAbort = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+const blankMaps = (): GlassMaps => ({ surfaceUrl: '', channels: STANDARD_CHANNELS });
+
+/**
+ * Runs a generator on the main thread. A throw is logged (in development) and
+ * turned into a blank map, so callers only have aborts to deal with.
+ */
+export function generateOrBlank<O>(generate: (options: O) => GlassMaps, options: O): GlassMaps {
+  try {
+    return generate(options);
+  } catch (err) {
+    if (process.env.NODE_ENV !== 'production') console.warn('Glass map generation failed:', err);
+    return blankMaps();
+  }
+}
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return (worker = null);
+  }
+
+  try {
+    worker = new Worker(new URL('./glassWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<GlassWorkerResponse>) => finishJob(event.data);
+    worker.onerror = (event) => {
+      // Worker failed to load or crashed: retire it and redo the job on the main thread
+      event.preventDefault();
+      worker?.terminate();
+      worker = null;
+      if (active) queue.unshift(active);
+      active = null;
+      pump();
+    };
+  } catch {
+    worker = null;
+  }
+  return worker;
+};
+
+// Path2D can't be structured-cloned, so those shapes stay on the main thread
+const canTransfer = (task: GlassWorkerTask) =>
+  task.kind === 'frost' || typeof task.options.shape !== 'object' || typeof task.options.shape.path === 'string';
+
+// Function profiles can't be cloned either, but a sampled copy can
+const toTransferable = (task: GlassWorkerTask): GlassWorkerTask =>
+  task.kind === 'surface' && typeof task.options.profile === 'function'
+    ? { kind: 'surface', options: { ...task.options, profile: toTransferableCurve(task.options.profile) } }
+    : task;
+
+const generateSync = (task: GlassWorkerTask) =>
+  task.kind === 'frost'
+    ? generateOrBlank(generateFrostMap, task.options)
+    : generateOrBlank(generateGlassMaps, task.options);
+
+const finishJob = (response: GlassWorkerResponse) => {
+  const job = active;
+  if (!job || job.id !== response.id) return;
+  active = null;
+
+  if ('error' in response) {
+    // The worker choked on this job: try it here before giving up on the map
+    if (!job.cancelled) job.resolve(generateSync(job.task));
+  } else if (!job.cancelled) {
+    const { blob, id, ...surface } = response;
+    job.resolve({ surfaceUrl: URL.createObjectURL(blob), ...surface });
+  }
+
+  pump();
+};
+
+const pump = () => {
+  if (active || queue.length === 0) return;
+  const job = queue.shift()!;
+  active = job;
+
+  const target = canTransfer(job.task) ? getWorker() : null;
+  if (target) {
+    const message: GlassWorkerRequest = { id: job.id, ...toTransferable(job.task) };
+    target.postMessage(message);
+    return;
+  }
+
+  // Sync fallback: yield between jobs so newer requests can still supersede queued ones
+  setTimeout(() => {
+    if (active !== job) return;
+    active = null;
+    if (!job.cancelled) job.resolve(generateSync(job.task));
+    pump();
+  }, 0);
+};
+
+/** Drops any queued or in-flight job for `owner`. */
+export function cancelGlassMaps(owner: string) {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].owner === owner) queue.splice(i, 1)[0].reject(abortError());
+  }
+
+  if (active && active.owner === owner && !active.cancelled) {
+    // Can't interrupt the worker mid-job; reject now and drop the result when it lands
+    active.cancelled = true;
+    active.reject(abortError());
+  }
+}
+
+const enqueue = (owner: string, task: GlassWorkerTask): Promise<GlassMaps> => {
+  cancelGlassMaps(owner);
+
+  const { width, height } = task.options;
+  if (width <= 0 || height <= 0) return Promise.resolve(blankMaps());
+
+  return new Promise<GlassMaps>((resolve, reject) => {
+    queue.push({ id: nextJobId++, owner, task, resolve, reject });
+    pump();
+  });
+};
+
+/**
+ * Generates glass maps off the main thread.
+ * Takes the same options as `generateGlassMaps`, plus an owner key.
+ */
+export function requestGlassMaps(owner: string, options: GlassSurfaceOptions): Promise<GlassMaps> {
+  return enqueue(owner, { kind: 'surface', options });
+}
+
+/** Generates a frost map off the main thread. Same options as `generateFrostMap`. */
+export function requestFrostMaps(owner: string, options: FrostMapOptions): Promise<GlassMaps> {
+  return enqueue(owner, { kind: 'frost', options });
+}
+
+/** Frees a map produced by `requestGlassMaps`. Safe to call on data URLs. */
+export function releaseGlassMaps(maps: GlassMaps | null) {
+  if (maps?.surfaceUrl.startsWith('blob:')) URL.revokeObjectURL(maps.surfaceUrl);
+}
@@ -0,0 +1,237 @@
+import type { GlassChannel, GlassChannelLayout } from './mapChannels';
+
+/**
+ * WebGL Glass Fallback
+ * --------------------
+ * Redraws a background element through a glass map, for browsers without
+ * `backdrop-filter: url()`. Same maths as the SVG path:
+ * P'(x, y) = P(x + scale * (X - 0.5), y + scale * (Y - 0.5)), then a 5x5 box
+ * blur spanning `blur` px each way and the map's mask as alpha. Output is premultiplied.
+ */
+
+export interface WebGLGlassFrame {
+  /** Glass element's box, in viewport pixels */
+  glass: DOMRect;
+  /** Background element's box, in viewport pixels */
+  backdrop: DOMRect;
+  /** Displacement scale in px (feDisplacementMap `scale`) */
+  scale: number;
+  /** Blur radius in px. 0 = sharp */
+  blur: number;
+  channels: GlassChannelLayout;
+}
+
+export interface WebGLGlassRenderer {
+  /** Upload the background. Call again every frame for video or a live canvas */
+  setSource: (source: TexImageSource) => void;
+  setMap: (map: TexImageSource) => void;
+  draw: (frame: WebGLGlassFrame) => void;
+  dispose: () => void;
+}
+
+const VERTEX = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT = `
+precision mediump float;
+uniform sampler2D u_source;
+uniform sampler2D u_map;
+uniform vec2 u_size;
+uniform vec4 u_sourceRect;
+uniform float u_scale;
+uniform float u_blur;
+uniform vec4 u_selX;
+uniform vec4 u_selY;
+uniform vec4 u_selMask;
+uniform float u_hasMask;
+varying vec2 v_uv;
+
+vec4 sampleSource(vec2 px) {
+  vec2 uv = clamp(u_sourceRect.xy + px * u_sourceRect.zw, 0.0, 1.0);
+  return texture2D(u_source, vec2(uv.x, 1.0 - uv.y));
+}
+
+void main() {
+  vec4 m = texture2D(u_map, v_uv);
+  vec2 offset = vec2(dot(m, u_selX) - 0.5, dot(m, u_selY) - 0.5) * u_scale;
+  vec2 px = vec2(v_uv.x, 1.0 - v_uv.y) * u_size + offset;
+
+  vec4 color = vec4(0.0);
+  for (int x = -2; x <= 2; x++) {
+    for (int y = -2; y <= 2; y++) {
+      color += sampleSource(px + vec2(float(x), float(y)) * u_blur * 0.5);
+    }
+  }
+  color /= 25.0;
+
+  float alpha = mix(1.0, dot(m, u_selMask), u_hasMask);
+  gl_FragColor = vec4(color.rgb * alpha, alpha);
+}`;
+
+const SELECTOR: Record<GlassChannel, [number, number, number, number]> = {
+  R: [1, 0, 0, 0],
+  G: [0, 1, 0, 0],
+  B: [0, 0, 1, 0],
+  A: [0, 0, 0, 1],
+};
+
+const compile = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) return shader;
+  gl.deleteShader(shader);
+  return null;
+};
+
+const createTexture = (gl: WebGLRenderingContext) => {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  return texture;
+};
+
+/**
+ * Sets up the shader on `canvas`. Returns null if WebGL or the shader is unavailable.
+ * `setSource` throws a SecurityError for cross-origin images without CORS.
+ */
+export function createWebGLGlass(canvas: HTMLCanvasElement): WebGLGlassRenderer | null {
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: true });
+  if (!gl) return null;
+
+  const vertex = compile(gl, gl.VERTEX_SHADER, VERTEX);
+  const fragment = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return null;
+  gl.useProgram(program);
+
+  // Full-screen quad
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'a_position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const u = {
+    source: uniform('u_source'),
+    map: uniform('u_map'),
+    size: uniform('u_size'),
+    sourceRect: uniform('u_sourceRect'),
+    scale: uniform('u_scale'),
+    blur: uniform('u_blur'),
+    selX: uniform('u_selX'),
+    selY: uniform('u_selY'),
+    selMask: uniform('u_selMask'),
+    hasMask: uniform('u_hasMask'),
+  };
+
+  const sourceTexture = createTexture(gl);
+  const mapTexture = createTexture(gl);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  let ready = { source: false, map: false };
+
+  const upload = (unit: number, texture: WebGLTexture | null, image: TexImageSource) => {
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+  };
+
+  return {
+    setSource: (source) => {
+      upload(0, sourceTexture, source);
+      ready.source = true;
+    },
+    setMap: (map) => {
+      upload(1, mapTexture, map);
+      ready.map = true;
+    },
+    draw: ({ glass, backdrop, scale, blur, channels }) => {
+      if (!ready.source || !ready.map || backdrop.width === 0 || backdrop.height === 0) return;
+
+      // Match the drawing buffer to the element at device resolution
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.max(1, Math.round(glass.width * dpr));
+      const height = Math.max(1, Math.round(glass.height * dpr));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+
+      gl.uniform1i(u.source, 0);
+      gl.uniform1i(u.map, 1);
+      gl.uniform2f(u.size, glass.width, glass.height);
+      gl.uniform4f(
+        u.sourceRect,
+        (glass.left - backdrop.left) / backdrop.width,
+        (glass.top - backdrop.top) / backdrop.height,
+        1 / backdrop.width,
+        1 / backdrop.height
+      );
+      gl.uniform1f(u.scale, scale);
+      gl.uniform1f(u.blur, blur);
+      gl.uniform4fv(u.selX, SELECTOR[channels.displaceX]);
+      gl.uniform4fv(u.selY, SELECTOR[channels.displaceY]);
+      gl.uniform4fv(u.selMask, SELECTOR[channels.mask ?? 'A']);
+      gl.uniform1f(u.hasMask, channels.mask ? 1 : 0);
+
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    },
+    dispose: () => {
+      gl.deleteTexture(sourceTexture);
+      gl.deleteTexture(mapTexture);
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+      gl.deleteShader(vertex);
+      gl.deleteShader(fragment);
+      ready = { source: false, map: false };
+    },
+  };
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Could not load ${src}`));
+  image.src = src;
+});
+
+/**
+ * Something WebGL can upload from a background element: the element itself
+ * (img, canvas, video) or its CSS background-image. Null if neither applies.
+ * `live` sources change over time and need re-uploading every frame.
+ */
+export async function captureBackdrop(element: HTMLElement): Promise<{ source: TexImageSource; live: boolean } | null> {
+  if (element instanceof HTMLImageElement) {
+    await element.decode().catch(() => {});
+    return element.naturalWidth ? { source: element, live: false } : null;
+  }
+  if (element instanceof HTMLCanvasElement || element instanceof HTMLVideoElement) {
+    return { source: element, live: true };
+  }
+
+  const match = /url\(["']?(.*?)["']?\)/.exec(getComputedStyle(element).backgroundImage);
+  if (!match) return null;
+  return { source: await loadImage(match[1]), live: false };
+}
+
+/** The map image for `setMap`, from a data or blob URL. */
+export const loadGlassMapImage = loadImage;